@@ -0,0 +1,334 @@
+import type { DatabaseClient } from "../store/db";
+import { runMigrations } from "../store/migrations";
+import {
+  placeholder,
+  placeholders,
+  quoteIdentifier,
+  type SqlDialect,
+  toSqlBoolean,
+  toSqlTimestamp,
+} from "../store/sql";
+import type {
+  AuthenticatorAttachment,
+  PasskeyAdapter,
+  PasskeyStatus,
+  PasskeyStatusUpdate,
+  PasskeyUsageUpdate,
+  StoredCredential,
+} from "../types/index";
+
+/**
+ * DbAdapter options
+ */
+export interface DbAdapterOptions {
+  /** Table name for passkeys, optionally schema-qualified (default: "passkeys") */
+  tableName?: string;
+  /** SQL dialect for placeholders and identifier quoting (default: "sqlite") */
+  dialect?: SqlDialect;
+}
+
+/**
+ * Passkey row as returned by the database drivers
+ * JSON columns arrive as strings (SQLite, SQL Server) or parsed values (PostgreSQL, MySQL);
+ * booleans as 0/1 on SQLite and MySQL; BIGINT counters as strings on PostgreSQL
+ */
+interface PasskeyRow {
+  id: string;
+  user_id: string;
+  credential_id: string;
+  public_key: string;
+  counter: number | string;
+  transports: unknown;
+  user_name: string | null;
+  user_display_name: string | null;
+  authenticator_attachment: string | null;
+  device_info: unknown;
+  backup_eligible: boolean | number;
+  backup_state: boolean | number;
+  aaguid: string | null;
+  attestation_format: string | null;
+  last_used_at: string | Date | null;
+  last_used_device_info: unknown;
+  suspected_clone: boolean | number;
+  status: string | null;
+  revoked_at: string | Date | null;
+  revoked_reason: string | null;
+  created_at: string | Date;
+  updated_at: string | Date | null;
+}
+
+const COLUMNS = [
+  "id",
+  "user_id",
+  "credential_id",
+  "public_key",
+  "counter",
+  "transports",
+  "user_name",
+  "user_display_name",
+  "authenticator_attachment",
+  "device_info",
+  "backup_eligible",
+  "backup_state",
+  "aaguid",
+  "attestation_format",
+  "last_used_at",
+  "last_used_device_info",
+  "suspected_clone",
+  "status",
+  "revoked_at",
+  "revoked_reason",
+  "created_at",
+  "updated_at",
+];
+
+/**
+ * SQL adapter for passkey credential storage
+ * Works with PostgreSQL, MySQL, SQLite and SQL Server via the generic DatabaseClient interface
+ *
+ * @example
+ * ```typescript
+ * const adapter = new DbAdapter(db, { dialect: "postgres" });
+ * await adapter.initializeTable();
+ * ```
+ */
+export class DbAdapter implements PasskeyAdapter {
+  private readonly tableName: string;
+  private readonly dialect: SqlDialect;
+  private readonly table: string;
+  private readonly columns: string;
+
+  constructor(
+    private readonly db: DatabaseClient,
+    options: DbAdapterOptions = {}
+  ) {
+    this.tableName = options.tableName ?? "passkeys";
+    this.dialect = options.dialect ?? "sqlite";
+    this.table = quoteIdentifier(this.dialect, this.tableName);
+    this.columns = COLUMNS.map((column) =>
+      quoteIdentifier(this.dialect, column)
+    ).join(", ");
+  }
+
+  async createPasskey(
+    data: Omit<StoredCredential, "id" | "createdAt">
+  ): Promise<StoredCredential> {
+    const now = Date.now();
+    const passkey: StoredCredential = {
+      ...data,
+      id: crypto.randomUUID(),
+      transports: data.transports || [],
+      deviceInfo: data.deviceInfo || {},
+      backupEligible: data.backupEligible || false,
+      backupState: data.backupState || false,
+      suspectedClone: data.suspectedClone || false,
+      status: data.status || "active",
+      createdAt: new Date(now).toISOString(),
+      updatedAt: new Date(now).toISOString(),
+    };
+
+    const sql = `INSERT INTO ${this.table} (${
+      this.columns
+    }) VALUES (${placeholders(this.dialect, COLUMNS.length)})`;
+
+    await this.db.execute(sql, [
+      passkey.id,
+      passkey.userId,
+      passkey.credentialId,
+      passkey.publicKey,
+      passkey.counter,
+      JSON.stringify(passkey.transports),
+      passkey.userName ?? null,
+      passkey.userDisplayName ?? null,
+      passkey.authenticatorAttachment ?? null,
+      JSON.stringify(passkey.deviceInfo),
+      toSqlBoolean(this.dialect, passkey.backupEligible!),
+      toSqlBoolean(this.dialect, passkey.backupState!),
+      passkey.aaguid ?? null,
+      passkey.attestationFormat ?? null,
+      passkey.lastUsedAt
+        ? toSqlTimestamp(this.dialect, Date.parse(passkey.lastUsedAt))
+        : null,
+      passkey.lastUsedDeviceInfo
+        ? JSON.stringify(passkey.lastUsedDeviceInfo)
+        : null,
+      toSqlBoolean(this.dialect, passkey.suspectedClone!),
+      passkey.status,
+      passkey.revokedAt
+        ? toSqlTimestamp(this.dialect, Date.parse(passkey.revokedAt))
+        : null,
+      passkey.revokedReason ?? null,
+      toSqlTimestamp(this.dialect, now),
+      toSqlTimestamp(this.dialect, now),
+    ]);
+
+    return passkey;
+  }
+
+  async findByCredentialId(
+    credentialId: string
+  ): Promise<StoredCredential | null> {
+    const rows = await this.db.query<PasskeyRow>(
+      `SELECT ${this.columns} FROM ${
+        this.table
+      } WHERE credential_id = ${this.param(1)}`,
+      [credentialId]
+    );
+
+    return rows.length > 0 ? this.mapRowToStored(rows[0]) : null;
+  }
+
+  async listUserPasskeys(userId: string): Promise<StoredCredential[]> {
+    const rows = await this.db.query<PasskeyRow>(
+      `SELECT ${this.columns} FROM ${this.table} WHERE user_id = ${this.param(
+        1
+      )} ORDER BY created_at DESC`,
+      [userId]
+    );
+
+    return rows.map((row) => this.mapRowToStored(row));
+  }
+
+  async updateCounter(id: string, counter: number): Promise<void> {
+    await this.update(id, { counter });
+  }
+
+  async updateUsage(id: string, usage: PasskeyUsageUpdate): Promise<void> {
+    await this.update(id, {
+      counter: usage.counter,
+      last_used_at: toSqlTimestamp(this.dialect, Date.parse(usage.lastUsedAt)),
+      backup_state: toSqlBoolean(this.dialect, usage.backupState),
+      ...(usage.lastUsedDeviceInfo && {
+        last_used_device_info: JSON.stringify(usage.lastUsedDeviceInfo),
+      }),
+    });
+  }
+
+  async renamePasskey(id: string, nickname: string): Promise<void> {
+    const rows = await this.db.query<Pick<PasskeyRow, "device_info">>(
+      `SELECT device_info FROM ${this.table} WHERE id = ${this.param(1)}`,
+      [id]
+    );
+
+    const deviceInfo = parseJson<StoredCredential["deviceInfo"]>(
+      rows[0]?.device_info
+    );
+    await this.update(id, {
+      device_info: JSON.stringify({ ...deviceInfo, nickname }),
+    });
+  }
+
+  async setSuspectedClone(id: string, suspectedClone: boolean): Promise<void> {
+    await this.update(id, {
+      suspected_clone: toSqlBoolean(this.dialect, suspectedClone),
+    });
+  }
+
+  async setPasskeyStatus(
+    id: string,
+    update: PasskeyStatusUpdate
+  ): Promise<void> {
+    await this.update(id, {
+      status: update.status,
+      revoked_at: update.revokedAt
+        ? toSqlTimestamp(this.dialect, Date.parse(update.revokedAt))
+        : null,
+      revoked_reason: update.revokedReason ?? null,
+    });
+  }
+
+  async deletePasskey(id: string): Promise<void> {
+    await this.db.execute(
+      `DELETE FROM ${this.table} WHERE id = ${this.param(1)}`,
+      [id]
+    );
+  }
+
+  /**
+   * Create or upgrade the passkeys table
+   * Call this during setup; see runMigrations to manage the challenges table as well
+   */
+  async initializeTable(): Promise<void> {
+    await runMigrations(this.db, {
+      dialect: this.dialect,
+      targets: ["passkeys"],
+      passkeysTable: this.tableName,
+    });
+  }
+
+  /**
+   * Update columns by passkey ID, bumping updated_at
+   */
+  private async update(
+    id: string,
+    values: Record<string, unknown>
+  ): Promise<void> {
+    const entries = Object.entries({
+      ...values,
+      updated_at: toSqlTimestamp(this.dialect, Date.now()),
+    });
+    const assignments = entries
+      .map(
+        ([column], i) =>
+          `${quoteIdentifier(this.dialect, column)} = ${this.param(i + 1)}`
+      )
+      .join(", ");
+
+    await this.db.execute(
+      `UPDATE ${this.table} SET ${assignments} WHERE id = ${this.param(
+        entries.length + 1
+      )}`,
+      [...entries.map(([, value]) => value), id]
+    );
+  }
+
+  private param(index: number): string {
+    return placeholder(this.dialect, index);
+  }
+
+  private mapRowToStored(row: PasskeyRow): StoredCredential {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      credentialId: row.credential_id,
+      publicKey: row.public_key,
+      counter: Number(row.counter),
+      transports: parseJson<string[]>(row.transports),
+      userName: row.user_name || undefined,
+      userDisplayName: row.user_display_name || undefined,
+      // Enhanced metadata fields
+      authenticatorAttachment:
+        (row.authenticator_attachment as AuthenticatorAttachment) || undefined,
+      deviceInfo: parseJson(row.device_info),
+      backupEligible: Boolean(row.backup_eligible) || undefined,
+      backupState: Boolean(row.backup_state) || undefined,
+      aaguid: row.aaguid || undefined,
+      attestationFormat: row.attestation_format || undefined,
+      lastUsedAt: row.last_used_at
+        ? new Date(row.last_used_at).toISOString()
+        : undefined,
+      lastUsedDeviceInfo: parseJson(row.last_used_device_info),
+      suspectedClone: Boolean(row.suspected_clone) || undefined,
+      status: (row.status as PasskeyStatus) || undefined,
+      revokedAt: row.revoked_at
+        ? new Date(row.revoked_at).toISOString()
+        : undefined,
+      revokedReason: row.revoked_reason || undefined,
+      // Standard timestamps
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: row.updated_at
+        ? new Date(row.updated_at).toISOString()
+        : undefined,
+    };
+  }
+}
+
+/**
+ * Parse a JSON column, which drivers return either as text or already parsed
+ */
+function parseJson<T>(value: unknown): T | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  return (typeof value === "string" ? JSON.parse(value) : value) as T;
+}
@@ -4,3 +4,6 @@
 
 export { PrismaAdapter, type PrismaClient } from "./prisma";
 export { SupabaseAdapter } from "./supabase";
+export { MemoryAdapter, type MemoryAdapterOptions } from "./memory";
+export { DbAdapter, type DbAdapterOptions } from "./db";
+export { MongoAdapter, type MongoPasskeyDocument } from "./mongo";
@@ -0,0 +1,199 @@
+import type {
+  PasskeyAdapter,
+  PasskeyStatusUpdate,
+  PasskeyUsageUpdate,
+  StoredCredential,
+} from "../types/index";
+import { readJsonFile, writeJsonFile } from "../utils/json-file";
+
+/**
+ * In-memory adapter options
+ */
+export interface MemoryAdapterOptions {
+  /** Maximum number of stored passkeys; creation fails beyond it (default: 10000) */
+  maxPasskeys?: number;
+  /** Persist passkeys to this JSON file so they survive restarts (Node.js only) */
+  filePath?: string;
+}
+
+/**
+ * In-memory adapter for development and tests
+ *
+ * Mirrors the database adapters: generated IDs and timestamps, unique
+ * credential IDs, newest-first listing and errors for unknown records.
+ * Returned credentials are copies, so callers cannot mutate stored state.
+ */
+export class MemoryAdapter implements PasskeyAdapter {
+  private readonly passkeys = new Map<string, StoredCredential>();
+  private readonly maxPasskeys: number;
+  private readonly filePath?: string;
+  private loaded?: Promise<void>;
+  private persisting: Promise<void> = Promise.resolve();
+
+  constructor(options: MemoryAdapterOptions = {}) {
+    this.maxPasskeys = options.maxPasskeys ?? 10_000;
+    this.filePath = options.filePath;
+  }
+
+  async createPasskey(
+    data: Omit<StoredCredential, "id" | "createdAt">
+  ): Promise<StoredCredential> {
+    await this.load();
+
+    if (this.findEntry(data.credentialId)) {
+      throw new Error("Failed to create passkey: credential ID already exists");
+    }
+    if (this.passkeys.size >= this.maxPasskeys) {
+      throw new Error(
+        `Failed to create passkey: limit of ${this.maxPasskeys} passkeys reached`
+      );
+    }
+
+    const now = new Date().toISOString();
+    const passkey: StoredCredential = {
+      ...structuredClone(data),
+      transports: data.transports || [],
+      backupEligible: data.backupEligible || false,
+      backupState: data.backupState || false,
+      status: data.status || "active",
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.passkeys.set(passkey.id, passkey);
+    await this.persist();
+
+    return structuredClone(passkey);
+  }
+
+  async findByCredentialId(
+    credentialId: string
+  ): Promise<StoredCredential | null> {
+    await this.load();
+
+    const passkey = this.findEntry(credentialId);
+    return passkey ? structuredClone(passkey) : null;
+  }
+
+  async listUserPasskeys(userId: string): Promise<StoredCredential[]> {
+    await this.load();
+
+    return [...this.passkeys.values()]
+      .filter((passkey) => passkey.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((passkey) => structuredClone(passkey));
+  }
+
+  async updateCounter(id: string, counter: number): Promise<void> {
+    await this.update(id, { counter });
+  }
+
+  async updateUsage(id: string, usage: PasskeyUsageUpdate): Promise<void> {
+    await this.update(id, {
+      counter: usage.counter,
+      lastUsedAt: usage.lastUsedAt,
+      backupState: usage.backupState,
+      ...(usage.lastUsedDeviceInfo && {
+        lastUsedDeviceInfo: usage.lastUsedDeviceInfo,
+      }),
+    });
+  }
+
+  async renamePasskey(id: string, nickname: string): Promise<void> {
+    await this.load();
+
+    const passkey = this.getEntry(id);
+    await this.update(id, { deviceInfo: { ...passkey.deviceInfo, nickname } });
+  }
+
+  async setSuspectedClone(id: string, suspectedClone: boolean): Promise<void> {
+    await this.update(id, { suspectedClone });
+  }
+
+  async setPasskeyStatus(
+    id: string,
+    update: PasskeyStatusUpdate
+  ): Promise<void> {
+    await this.update(id, {
+      status: update.status,
+      revokedAt: update.revokedAt,
+      revokedReason: update.revokedReason,
+    });
+  }
+
+  async deletePasskey(id: string): Promise<void> {
+    await this.load();
+
+    this.getEntry(id);
+    this.passkeys.delete(id);
+    await this.persist();
+  }
+
+  /**
+   * Remove all passkeys
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    this.passkeys.clear();
+    await this.persist();
+  }
+
+  private async update(
+    id: string,
+    data: Partial<StoredCredential>
+  ): Promise<void> {
+    await this.load();
+
+    const passkey = this.getEntry(id);
+    this.passkeys.set(id, {
+      ...passkey,
+      ...structuredClone(data),
+      updatedAt: new Date().toISOString(),
+    });
+    await this.persist();
+  }
+
+  private getEntry(id: string): StoredCredential {
+    const passkey = this.passkeys.get(id);
+    if (!passkey) {
+      throw new Error(`Passkey ${id} not found`);
+    }
+    return passkey;
+  }
+
+  private findEntry(credentialId: string): StoredCredential | undefined {
+    for (const passkey of this.passkeys.values()) {
+      if (passkey.credentialId === credentialId) {
+        return passkey;
+      }
+    }
+    return undefined;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.filePath
+        ? readJsonFile<StoredCredential[]>(this.filePath).then((passkeys) => {
+            for (const passkey of passkeys ?? []) {
+              this.passkeys.set(passkey.id, passkey);
+            }
+          })
+        : Promise.resolve();
+    }
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return Promise.resolve();
+    }
+
+    // Serialize writes so an older snapshot never overwrites a newer one
+    this.persisting = this.persisting
+      .catch(() => undefined)
+      .then(() => writeJsonFile(filePath, [...this.passkeys.values()]));
+    return this.persisting;
+  }
+}
@@ -0,0 +1,162 @@
+import type { MongoCollection } from "../store/mongo";
+import type {
+  PasskeyAdapter,
+  PasskeyStatusUpdate,
+  PasskeyUsageUpdate,
+  StoredCredential,
+} from "../types/index";
+
+/**
+ * Passkey document
+ * Timestamps are BSON dates; the credential's `id` is stored as `_id`
+ */
+export type MongoPasskeyDocument = Omit<
+  StoredCredential,
+  "id" | "lastUsedAt" | "revokedAt" | "createdAt" | "updatedAt"
+> & {
+  _id: string;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/**
+ * MongoDB adapter for passkey credential storage
+ *
+ * @example
+ * ```typescript
+ * const adapter = new MongoAdapter(db.collection("passkeys"));
+ * await adapter.initializeIndexes();
+ * ```
+ */
+export class MongoAdapter implements PasskeyAdapter {
+  constructor(
+    private readonly collection: MongoCollection<MongoPasskeyDocument>
+  ) {}
+
+  async createPasskey(
+    data: Omit<StoredCredential, "id" | "createdAt">
+  ): Promise<StoredCredential> {
+    const now = new Date();
+    const doc: MongoPasskeyDocument = {
+      ...data,
+      _id: crypto.randomUUID(),
+      transports: data.transports || [],
+      backupEligible: data.backupEligible || false,
+      backupState: data.backupState || false,
+      lastUsedAt: data.lastUsedAt ? new Date(data.lastUsedAt) : undefined,
+      status: data.status || "active",
+      revokedAt: data.revokedAt ? new Date(data.revokedAt) : undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // Drop undefined fields rather than storing them as null
+    for (const key of Object.keys(doc) as (keyof MongoPasskeyDocument)[]) {
+      if (doc[key] === undefined) {
+        delete doc[key];
+      }
+    }
+
+    await this.collection.insertOne(doc);
+    return this.mapDocumentToStored(doc);
+  }
+
+  async findByCredentialId(
+    credentialId: string
+  ): Promise<StoredCredential | null> {
+    const doc = await this.collection.findOne({ credentialId });
+    return doc ? this.mapDocumentToStored(doc) : null;
+  }
+
+  async listUserPasskeys(userId: string): Promise<StoredCredential[]> {
+    const docs = await this.collection
+      .find({ userId }, { sort: { createdAt: -1 } })
+      .toArray();
+
+    return docs.map((doc) => this.mapDocumentToStored(doc));
+  }
+
+  async updateCounter(id: string, counter: number): Promise<void> {
+    await this.update(id, { counter });
+  }
+
+  async updateUsage(id: string, usage: PasskeyUsageUpdate): Promise<void> {
+    await this.update(id, {
+      counter: usage.counter,
+      lastUsedAt: new Date(usage.lastUsedAt),
+      backupState: usage.backupState,
+      ...(usage.lastUsedDeviceInfo && {
+        lastUsedDeviceInfo: usage.lastUsedDeviceInfo,
+      }),
+    });
+  }
+
+  async renamePasskey(id: string, nickname: string): Promise<void> {
+    // Dotted path sets the nickname without replacing the rest of deviceInfo
+    await this.update(id, { "deviceInfo.nickname": nickname });
+  }
+
+  async setSuspectedClone(id: string, suspectedClone: boolean): Promise<void> {
+    await this.update(id, { suspectedClone });
+  }
+
+  async setPasskeyStatus(
+    id: string,
+    update: PasskeyStatusUpdate
+  ): Promise<void> {
+    if (update.status === "revoked") {
+      await this.update(id, {
+        status: update.status,
+        ...(update.revokedAt && { revokedAt: new Date(update.revokedAt) }),
+        ...(update.revokedReason && { revokedReason: update.revokedReason }),
+      });
+      return;
+    }
+
+    await this.collection.updateOne(
+      { _id: id },
+      {
+        $set: { status: update.status, updatedAt: new Date() },
+        $unset: { revokedAt: "", revokedReason: "" },
+      }
+    );
+  }
+
+  async deletePasskey(id: string): Promise<void> {
+    await this.collection.deleteOne({ _id: id });
+  }
+
+  /**
+   * Create the unique `credentialId` index and the `userId` index
+   * Safe to call on every startup
+   */
+  async initializeIndexes(): Promise<void> {
+    await this.collection.createIndex({ credentialId: 1 }, { unique: true });
+    await this.collection.createIndex({ userId: 1, createdAt: -1 });
+  }
+
+  private async update(
+    id: string,
+    fields: Record<string, unknown>
+  ): Promise<void> {
+    await this.collection.updateOne(
+      { _id: id },
+      { $set: { ...fields, updatedAt: new Date() } }
+    );
+  }
+
+  private mapDocumentToStored(doc: MongoPasskeyDocument): StoredCredential {
+    const { _id, lastUsedAt, revokedAt, createdAt, updatedAt, ...rest } = doc;
+
+    return {
+      ...rest,
+      id: _id,
+      lastUsedAt: lastUsedAt ? new Date(lastUsedAt).toISOString() : undefined,
+      revokedAt: revokedAt ? new Date(revokedAt).toISOString() : undefined,
+      createdAt: new Date(createdAt).toISOString(),
+      updatedAt: updatedAt ? new Date(updatedAt).toISOString() : undefined,
+    };
+  }
+}
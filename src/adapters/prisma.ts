@@ -1,5 +1,8 @@
 import type {
   PasskeyAdapter,
+  PasskeyStatus,
+  PasskeyStatusUpdate,
+  PasskeyUsageUpdate,
   StoredCredential,
   AuthenticatorAttachment,
 } from "../types/index";
@@ -24,7 +27,11 @@ export interface PrismaClient {
         deviceInfo?: any;
         backupEligible?: boolean;
         backupState?: boolean;
+        aaguid?: string;
+        attestationFormat?: string;
         lastUsedAt?: Date;
+        lastUsedDeviceInfo?: any;
+        status?: string;
       };
     }): Promise<{
       id: string;
@@ -39,12 +46,21 @@ export interface PrismaClient {
       deviceInfo?: any;
       backupEligible?: boolean;
       backupState?: boolean;
+      aaguid?: string;
+      attestationFormat?: string;
       lastUsedAt?: Date;
+      lastUsedDeviceInfo?: any;
+      suspectedClone?: boolean;
+      status?: string;
+      revokedAt?: Date;
+      revokedReason?: string;
       createdAt: Date;
       updatedAt: Date;
     }>;
 
-    findUnique(args: { where: { credentialId: string } }): Promise<{
+    findUnique(args: {
+      where: { credentialId: string } | { id: string };
+    }): Promise<{
       id: string;
       userId: string;
       credentialId: string;
@@ -57,7 +73,14 @@ export interface PrismaClient {
       deviceInfo?: any;
       backupEligible?: boolean;
       backupState?: boolean;
+      aaguid?: string;
+      attestationFormat?: string;
       lastUsedAt?: Date;
+      lastUsedDeviceInfo?: any;
+      suspectedClone?: boolean;
+      status?: string;
+      revokedAt?: Date;
+      revokedReason?: string;
       createdAt: Date;
       updatedAt: Date;
     } | null>;
@@ -79,7 +102,14 @@ export interface PrismaClient {
         deviceInfo?: any;
         backupEligible?: boolean;
         backupState?: boolean;
+        aaguid?: string;
+        attestationFormat?: string;
         lastUsedAt?: Date;
+        lastUsedDeviceInfo?: any;
+        suspectedClone?: boolean;
+        status?: string;
+        revokedAt?: Date;
+        revokedReason?: string;
         createdAt: Date;
         updatedAt: Date;
       }>
@@ -87,7 +117,17 @@ export interface PrismaClient {
 
     update(args: {
       where: { id: string };
-      data: { counter: number };
+      data: {
+        counter?: number;
+        lastUsedAt?: Date;
+        backupState?: boolean;
+        lastUsedDeviceInfo?: any;
+        deviceInfo?: any;
+        suspectedClone?: boolean;
+        status?: string;
+        revokedAt?: Date | null;
+        revokedReason?: string | null;
+      };
     }): Promise<{
       id: string;
       userId: string;
@@ -131,7 +171,10 @@ export class PrismaAdapter implements PasskeyAdapter {
         deviceInfo: data.deviceInfo,
         backupEligible: data.backupEligible || false,
         backupState: data.backupState || false,
+        aaguid: data.aaguid,
+        attestationFormat: data.attestationFormat,
         lastUsedAt: data.lastUsedAt ? new Date(data.lastUsedAt) : undefined,
+        status: data.status || "active",
       },
     });
 
@@ -164,6 +207,48 @@ export class PrismaAdapter implements PasskeyAdapter {
     });
   }
 
+  async updateUsage(id: string, usage: PasskeyUsageUpdate): Promise<void> {
+    await this.prisma.passkey.update({
+      where: { id },
+      data: {
+        counter: usage.counter,
+        lastUsedAt: new Date(usage.lastUsedAt),
+        backupState: usage.backupState,
+        lastUsedDeviceInfo: usage.lastUsedDeviceInfo,
+      },
+    });
+  }
+
+  async renamePasskey(id: string, nickname: string): Promise<void> {
+    const existing = await this.prisma.passkey.findUnique({ where: { id } });
+
+    await this.prisma.passkey.update({
+      where: { id },
+      data: { deviceInfo: { ...existing?.deviceInfo, nickname } },
+    });
+  }
+
+  async setSuspectedClone(id: string, suspectedClone: boolean): Promise<void> {
+    await this.prisma.passkey.update({
+      where: { id },
+      data: { suspectedClone },
+    });
+  }
+
+  async setPasskeyStatus(
+    id: string,
+    update: PasskeyStatusUpdate
+  ): Promise<void> {
+    await this.prisma.passkey.update({
+      where: { id },
+      data: {
+        status: update.status,
+        revokedAt: update.revokedAt ? new Date(update.revokedAt) : null,
+        revokedReason: update.revokedReason ?? null,
+      },
+    });
+  }
+
   async deletePasskey(id: string): Promise<void> {
     await this.prisma.passkey.delete({
       where: { id },
@@ -183,7 +268,14 @@ export class PrismaAdapter implements PasskeyAdapter {
     deviceInfo?: any;
     backupEligible?: boolean;
     backupState?: boolean;
+    aaguid?: string;
+    attestationFormat?: string;
     lastUsedAt?: Date;
+    lastUsedDeviceInfo?: any;
+    suspectedClone?: boolean;
+    status?: string;
+    revokedAt?: Date;
+    revokedReason?: string;
     createdAt: Date;
     updatedAt: Date;
   }): StoredCredential {
@@ -203,7 +295,14 @@ export class PrismaAdapter implements PasskeyAdapter {
       deviceInfo: prismaResult.deviceInfo || undefined,
       backupEligible: prismaResult.backupEligible || undefined,
       backupState: prismaResult.backupState || undefined,
+      aaguid: prismaResult.aaguid || undefined,
+      attestationFormat: prismaResult.attestationFormat || undefined,
       lastUsedAt: prismaResult.lastUsedAt?.toISOString() || undefined,
+      lastUsedDeviceInfo: prismaResult.lastUsedDeviceInfo || undefined,
+      suspectedClone: prismaResult.suspectedClone || undefined,
+      status: (prismaResult.status as PasskeyStatus) || undefined,
+      revokedAt: prismaResult.revokedAt?.toISOString() || undefined,
+      revokedReason: prismaResult.revokedReason || undefined,
       // Standard timestamps
       createdAt: prismaResult.createdAt.toISOString(),
       updatedAt: prismaResult.updatedAt.toISOString(),
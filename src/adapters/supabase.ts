@@ -1,4 +1,9 @@
-import type { PasskeyAdapter, StoredCredential } from "../types/index";
+import type {
+  PasskeyAdapter,
+  PasskeyStatusUpdate,
+  PasskeyUsageUpdate,
+  StoredCredential,
+} from "../types/index";
 
 /**
  * Supabase adapter for passkey credential storage
@@ -27,9 +32,12 @@ export class SupabaseAdapter implements PasskeyAdapter {
       device_info: data.deviceInfo || {},
       backup_eligible: data.backupEligible || false,
       backup_state: data.backupState || false,
+      aaguid: data.aaguid,
+      attestation_format: data.attestationFormat,
       last_used_at: data.lastUsedAt
         ? new Date(data.lastUsedAt).toISOString()
         : null,
+      status: data.status || "active",
     };
 
     const { data: result, error } = await this.supabase
@@ -96,6 +104,73 @@ export class SupabaseAdapter implements PasskeyAdapter {
     }
   }
 
+  async updateUsage(id: string, usage: PasskeyUsageUpdate): Promise<void> {
+    const { error } = await this.supabase
+      .from(this.tableName)
+      .update({
+        counter: usage.counter,
+        last_used_at: usage.lastUsedAt,
+        backup_state: usage.backupState,
+        ...(usage.lastUsedDeviceInfo && {
+          last_used_device_info: usage.lastUsedDeviceInfo,
+        }),
+      })
+      .eq("id", id);
+
+    if (error) {
+      throw new Error(`Failed to update usage: ${error.message}`);
+    }
+  }
+
+  async renamePasskey(id: string, nickname: string): Promise<void> {
+    const { data, error: findError } = await this.supabase
+      .from(this.tableName)
+      .select("device_info")
+      .eq("id", id);
+
+    if (findError) {
+      throw new Error(`Failed to find passkey: ${findError.message}`);
+    }
+
+    const { error } = await this.supabase
+      .from(this.tableName)
+      .update({ device_info: { ...data?.[0]?.device_info, nickname } })
+      .eq("id", id);
+
+    if (error) {
+      throw new Error(`Failed to rename passkey: ${error.message}`);
+    }
+  }
+
+  async setSuspectedClone(id: string, suspectedClone: boolean): Promise<void> {
+    const { error } = await this.supabase
+      .from(this.tableName)
+      .update({ suspected_clone: suspectedClone })
+      .eq("id", id);
+
+    if (error) {
+      throw new Error(`Failed to update passkey: ${error.message}`);
+    }
+  }
+
+  async setPasskeyStatus(
+    id: string,
+    update: PasskeyStatusUpdate
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from(this.tableName)
+      .update({
+        status: update.status,
+        revoked_at: update.revokedAt ?? null,
+        revoked_reason: update.revokedReason ?? null,
+      })
+      .eq("id", id);
+
+    if (error) {
+      throw new Error(`Failed to update passkey status: ${error.message}`);
+    }
+  }
+
   async deletePasskey(id: string): Promise<void> {
     const { error } = await this.supabase
       .from(this.tableName)
@@ -123,7 +198,14 @@ export class SupabaseAdapter implements PasskeyAdapter {
       deviceInfo: supabaseResult.device_info || undefined,
       backupEligible: supabaseResult.backup_eligible || undefined,
       backupState: supabaseResult.backup_state || undefined,
+      aaguid: supabaseResult.aaguid || undefined,
+      attestationFormat: supabaseResult.attestation_format || undefined,
       lastUsedAt: supabaseResult.last_used_at || undefined,
+      lastUsedDeviceInfo: supabaseResult.last_used_device_info || undefined,
+      suspectedClone: supabaseResult.suspected_clone || undefined,
+      status: supabaseResult.status || undefined,
+      revokedAt: supabaseResult.revoked_at || undefined,
+      revokedReason: supabaseResult.revoked_reason || undefined,
       // Standard timestamps
       createdAt: supabaseResult.created_at,
       updatedAt: supabaseResult.updated_at,
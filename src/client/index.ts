@@ -13,3 +13,12 @@ export {
   getPasskeyIcon,
   isSameAuthenticator,
 } from "../utils/device-detection";
+
+// AAGUID-based authenticator identification
+export {
+  getAuthenticatorInfo,
+  loadAaguidMetadata,
+  type AuthenticatorInfo,
+  type AuthenticatorKind,
+  type AaguidMetadataEntry,
+} from "../utils/aaguid";
@@ -0,0 +1,31 @@
+import { type ErrorCode, ErrorCodes, PasskeyError } from "../types/index";
+
+/**
+ * Build a PasskeyError from a failed endpoint response
+ * Keeps the server's error code, and the retry delay of RATE_LIMITED errors
+ */
+export async function toResponseError(
+  response: Response,
+  fallbackMessage: string,
+  fallbackCode: ErrorCode
+): Promise<PasskeyError> {
+  const errorData = await response.json().catch(() => ({}));
+  const retryAfter =
+    errorData.retryAfter ?? Number(response.headers.get("Retry-After"));
+
+  return new PasskeyError(
+    errorData.error || fallbackMessage,
+    errorData.code || fallbackCode,
+    retryAfter ? { retryAfter } : undefined
+  );
+}
+
+/**
+ * Seconds to wait before retrying, for RATE_LIMITED errors
+ */
+export function getRetryAfter(error: unknown): number | null {
+  if (error instanceof PasskeyError && error.code === ErrorCodes.RATE_LIMITED) {
+    return (error.details as { retryAfter?: number })?.retryAfter ?? null;
+  }
+  return null;
+}
@@ -1,6 +1,7 @@
 import {
   type AuthenticationResponseJSON,
   type PublicKeyCredentialRequestOptionsJSON,
+  browserSupportsWebAuthnAutofill,
   startAuthentication,
 } from "@simplewebauthn/browser";
 import { useCallback, useState } from "react";
@@ -8,10 +9,48 @@ import {
   type AuthenticatePasskeyHook,
   type AuthenticationStartOptions,
   type ClientConfig,
+  type DiscoverableAuthenticationOptions,
   ErrorCodes,
   PasskeyError,
   type StoredCredential,
 } from "../types/index";
+import { detectDeviceInfo } from "../utils/device-detection";
+import { getRetryAfter, toResponseError } from "./response";
+
+/**
+ * Map WebAuthn browser API errors to PasskeyError
+ */
+function toBrowserPasskeyError(browserError: unknown): PasskeyError {
+  // Handle common browser errors
+  if (browserError instanceof Error) {
+    if (browserError.name === "NotAllowedError") {
+      return new PasskeyError(
+        "User cancelled authentication or operation timed out",
+        ErrorCodes.VERIFICATION_FAILED,
+        browserError
+      );
+    }
+    if (browserError.name === "InvalidStateError") {
+      return new PasskeyError(
+        "Authenticator is not available",
+        ErrorCodes.CREDENTIAL_NOT_FOUND,
+        browserError
+      );
+    }
+    if (browserError.name === "NotSupportedError") {
+      return new PasskeyError(
+        "Passkeys are not supported on this device/browser",
+        ErrorCodes.INVALID_INPUT,
+        browserError
+      );
+    }
+  }
+  return new PasskeyError(
+    "Failed to authenticate with passkey",
+    ErrorCodes.VERIFICATION_FAILED,
+    browserError
+  );
+}
 
 /**
  * React hook for passkey authentication
@@ -21,6 +60,7 @@ export function useAuthenticatePasskey(
 ): AuthenticatePasskeyHook {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [retryAfter, setRetryAfter] = useState<number | null>(null);
 
   const authenticate = useCallback(
     async (
@@ -29,6 +69,7 @@ export function useAuthenticatePasskey(
     ): Promise<{ verified: boolean; credential?: StoredCredential }> => {
       setLoading(true);
       setError(null);
+      setRetryAfter(null);
 
       try {
         // Step 1: Start authentication flow
@@ -42,14 +83,17 @@ export function useAuthenticatePasskey(
         });
 
         if (!startResponse.ok) {
-          const errorData = await startResponse.json();
-          throw new PasskeyError(
-            errorData.error || "Failed to start authentication",
+          throw await toResponseError(
+            startResponse,
+            "Failed to start authentication",
             ErrorCodes.INVALID_INPUT
           );
         }
 
-        const requestOptions: PublicKeyCredentialRequestOptionsJSON =
+        const {
+          challengeId,
+          ...requestOptions
+        }: PublicKeyCredentialRequestOptionsJSON & { challengeId: string } =
           await startResponse.json();
 
         // Step 2: Get credential using WebAuthn browser API
@@ -59,38 +103,113 @@ export function useAuthenticatePasskey(
             optionsJSON: requestOptions,
           });
         } catch (browserError) {
-          // Handle common browser errors
-          if (browserError instanceof Error) {
-            if (browserError.name === "NotAllowedError") {
-              throw new PasskeyError(
-                "User cancelled authentication or operation timed out",
-                ErrorCodes.VERIFICATION_FAILED,
-                browserError
-              );
-            }
-            if (browserError.name === "InvalidStateError") {
-              throw new PasskeyError(
-                "Authenticator is not available",
-                ErrorCodes.CREDENTIAL_NOT_FOUND,
-                browserError
-              );
-            }
-            if (browserError.name === "NotSupportedError") {
-              throw new PasskeyError(
-                "Passkeys are not supported on this device/browser",
-                ErrorCodes.INVALID_INPUT,
-                browserError
-              );
-            }
+          throw toBrowserPasskeyError(browserError);
+        }
+
+        // Step 3: Finish authentication flow
+        const finishResponse = await fetch(
+          config.endpoints.authenticateFinish,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            credentials: "include",
+            body: JSON.stringify({
+              userId,
+              challengeId,
+              credential,
+              deviceInfo: detectDeviceInfo(),
+            }),
           }
+        );
+
+        if (!finishResponse.ok) {
+          throw await toResponseError(
+            finishResponse,
+            "Failed to finish authentication",
+            ErrorCodes.VERIFICATION_FAILED
+          );
+        }
+
+        const result = await finishResponse.json();
+        return result;
+      } catch (err) {
+        const errorMessage =
+          err instanceof PasskeyError ? err.message : "Authentication failed";
+        setError(errorMessage);
+        setRetryAfter(getRetryAfter(err));
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [config.endpoints]
+  );
+
+  const authenticateDiscoverable = useCallback(
+    async (
+      options?: DiscoverableAuthenticationOptions
+    ): Promise<{ verified: boolean; credential?: StoredCredential }> => {
+      const { mediation, ...startOptions } = options || {};
+      const useBrowserAutofill = mediation === "conditional";
+
+      setLoading(true);
+      setError(null);
+      setRetryAfter(null);
+
+      try {
+        if (useBrowserAutofill && !(await browserSupportsWebAuthnAutofill())) {
           throw new PasskeyError(
-            "Failed to authenticate with passkey",
-            ErrorCodes.VERIFICATION_FAILED,
-            browserError
+            "Passkey autofill is not supported on this browser",
+            ErrorCodes.INVALID_INPUT
           );
         }
 
-        // Step 3: Finish authentication flow
+        // Step 1: Start authentication flow without a user ID
+        const startResponse = await fetch(config.endpoints.authenticateStart, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          body: JSON.stringify(startOptions),
+        });
+
+        if (!startResponse.ok) {
+          throw await toResponseError(
+            startResponse,
+            "Failed to start authentication",
+            ErrorCodes.INVALID_INPUT
+          );
+        }
+
+        const {
+          challengeId,
+          ...requestOptions
+        }: PublicKeyCredentialRequestOptionsJSON & { challengeId: string } =
+          await startResponse.json();
+
+        // Step 2: Let the browser pick a discoverable credential
+        let credential: AuthenticationResponseJSON;
+        try {
+          credential = await startAuthentication({
+            optionsJSON: requestOptions,
+            useBrowserAutofill,
+          });
+        } catch (browserError) {
+          // A pending autofill request is aborted when another ceremony starts
+          if (
+            useBrowserAutofill &&
+            browserError instanceof Error &&
+            browserError.name === "AbortError"
+          ) {
+            return { verified: false };
+          }
+          throw toBrowserPasskeyError(browserError);
+        }
+
+        // Step 3: Finish authentication flow with the challenge ID
         const finishResponse = await fetch(
           config.endpoints.authenticateFinish,
           {
@@ -99,14 +218,18 @@ export function useAuthenticatePasskey(
               "Content-Type": "application/json",
             },
             credentials: "include",
-            body: JSON.stringify({ userId, credential }),
+            body: JSON.stringify({
+              challengeId,
+              credential,
+              deviceInfo: detectDeviceInfo(),
+            }),
           }
         );
 
         if (!finishResponse.ok) {
-          const errorData = await finishResponse.json();
-          throw new PasskeyError(
-            errorData.error || "Failed to finish authentication",
+          throw await toResponseError(
+            finishResponse,
+            "Failed to finish authentication",
             ErrorCodes.VERIFICATION_FAILED
           );
         }
@@ -117,6 +240,7 @@ export function useAuthenticatePasskey(
         const errorMessage =
           err instanceof PasskeyError ? err.message : "Authentication failed";
         setError(errorMessage);
+        setRetryAfter(getRetryAfter(err));
         throw err;
       } finally {
         setLoading(false);
@@ -127,7 +251,9 @@ export function useAuthenticatePasskey(
 
   return {
     authenticate,
+    authenticateDiscoverable,
     loading,
     error,
+    retryAfter,
   };
 }
@@ -6,16 +6,17 @@ import {
   PasskeyError,
   type StoredCredential,
 } from "../types/index";
+import { toResponseError } from "./response";
 
 /**
- * React hook for managing passkeys (list, remove)
+ * React hook for managing passkeys (list, remove, rename)
  */
 export function useManagePasskeys(config: ClientConfig): ManagePasskeysHook {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const list = useCallback(
-    async (userId: string): Promise<StoredCredential[]> => {
+    async (): Promise<StoredCredential[]> => {
       setLoading(true);
       setError(null);
 
@@ -26,13 +27,13 @@ export function useManagePasskeys(config: ClientConfig): ManagePasskeysHook {
             "Content-Type": "application/json",
           },
           credentials: "include",
-          body: JSON.stringify({ userId }),
+          body: JSON.stringify({}),
         });
 
         if (!response.ok) {
-          const errorData = await response.json();
-          throw new PasskeyError(
-            errorData.error || "Failed to list passkeys",
+          throw await toResponseError(
+            response,
+            "Failed to list passkeys",
             ErrorCodes.STORAGE_ERROR
           );
         }
@@ -52,7 +53,7 @@ export function useManagePasskeys(config: ClientConfig): ManagePasskeysHook {
   );
 
   const remove = useCallback(
-    async (userId: string, credentialId: string): Promise<void> => {
+    async (credentialId: string): Promise<void> => {
       setLoading(true);
       setError(null);
 
@@ -63,13 +64,13 @@ export function useManagePasskeys(config: ClientConfig): ManagePasskeysHook {
             "Content-Type": "application/json",
           },
           credentials: "include",
-          body: JSON.stringify({ userId, credentialId }),
+          body: JSON.stringify({ credentialId }),
         });
 
         if (!response.ok) {
-          const errorData = await response.json();
-          throw new PasskeyError(
-            errorData.error || "Failed to delete passkey",
+          throw await toResponseError(
+            response,
+            "Failed to delete passkey",
             ErrorCodes.STORAGE_ERROR
           );
         }
@@ -87,9 +88,53 @@ export function useManagePasskeys(config: ClientConfig): ManagePasskeysHook {
     [config.endpoints]
   );
 
+  const rename = useCallback(
+    async (credentialId: string, nickname: string): Promise<void> => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        if (!config.endpoints.renamePasskey) {
+          throw new PasskeyError(
+            "Rename passkey endpoint is not configured",
+            ErrorCodes.INVALID_INPUT
+          );
+        }
+
+        const response = await fetch(config.endpoints.renamePasskey, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          body: JSON.stringify({ credentialId, nickname }),
+        });
+
+        if (!response.ok) {
+          throw await toResponseError(
+            response,
+            "Failed to rename passkey",
+            ErrorCodes.STORAGE_ERROR
+          );
+        }
+      } catch (err) {
+        const errorMessage =
+          err instanceof PasskeyError
+            ? err.message
+            : "Failed to rename passkey";
+        setError(errorMessage);
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [config.endpoints]
+  );
+
   return {
     list,
     remove,
+    rename,
     loading,
     error,
   };
@@ -8,12 +8,12 @@ import {
   type ClientConfig,
   ErrorCodes,
   type PasskeyDeviceInfo,
-  type PasskeyManagementOptions,
   PasskeyError,
   type RegisterPasskeyHook,
   type RegistrationStartOptions,
   type StoredCredential,
 } from "../types/index";
+import { getRetryAfter, toResponseError } from "./response";
 
 /**
  * Detect device information from user agent and browser APIs
@@ -64,17 +64,15 @@ function detectDeviceInfo(): PasskeyDeviceInfo {
 export function useRegisterPasskey(config: ClientConfig): RegisterPasskeyHook {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [retryAfter, setRetryAfter] = useState<number | null>(null);
 
   const register = useCallback(
     async (
-      userId: string,
-      options?: RegistrationStartOptions & {
-        managementOptions?: PasskeyManagementOptions;
-        nickname?: string;
-      }
+      options?: RegistrationStartOptions & { nickname?: string }
     ): Promise<{ verified: boolean; credential?: StoredCredential }> => {
       setLoading(true);
       setError(null);
+      setRetryAfter(null);
 
       try {
         // Detect device information
@@ -91,21 +89,23 @@ export function useRegisterPasskey(config: ClientConfig): RegisterPasskeyHook {
           },
           credentials: "include",
           body: JSON.stringify({
-            userId,
             ...options,
             deviceInfo,
           }),
         });
 
         if (!startResponse.ok) {
-          const errorData = await startResponse.json();
-          throw new PasskeyError(
-            errorData.error || "Failed to start registration",
+          throw await toResponseError(
+            startResponse,
+            "Failed to start registration",
             ErrorCodes.INVALID_INPUT
           );
         }
 
-        const creationOptions: PublicKeyCredentialCreationOptionsJSON =
+        const {
+          challengeId,
+          ...creationOptions
+        }: PublicKeyCredentialCreationOptionsJSON & { challengeId: string } =
           await startResponse.json();
 
         // Step 2: Create credential using WebAuthn browser API
@@ -154,17 +154,16 @@ export function useRegisterPasskey(config: ClientConfig): RegisterPasskeyHook {
           },
           credentials: "include",
           body: JSON.stringify({
-            userId,
+            challengeId,
             credential,
             deviceInfo,
-            managementOptions: options?.managementOptions,
           }),
         });
 
         if (!finishResponse.ok) {
-          const errorData = await finishResponse.json();
-          throw new PasskeyError(
-            errorData.error || "Failed to finish registration",
+          throw await toResponseError(
+            finishResponse,
+            "Failed to finish registration",
             ErrorCodes.VERIFICATION_FAILED
           );
         }
@@ -175,6 +174,7 @@ export function useRegisterPasskey(config: ClientConfig): RegisterPasskeyHook {
         const errorMessage =
           err instanceof PasskeyError ? err.message : "Registration failed";
         setError(errorMessage);
+        setRetryAfter(getRetryAfter(err));
         throw err;
       } finally {
         setLoading(false);
@@ -187,5 +187,6 @@ export function useRegisterPasskey(config: ClientConfig): RegisterPasskeyHook {
     register,
     loading,
     error,
+    retryAfter,
   };
 }
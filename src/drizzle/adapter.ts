@@ -0,0 +1,169 @@
+import { desc, eq } from "drizzle-orm";
+import type {
+  PasskeyAdapter,
+  PasskeyStatusUpdate,
+  PasskeyUsageUpdate,
+  StoredCredential,
+} from "../types/index";
+import {
+  type DrizzleClient,
+  type DrizzleDatabase,
+  toDrizzleClient,
+} from "./database";
+import type { DrizzlePasskeyRow, DrizzlePasskeysTable } from "./schema";
+
+/**
+ * Drizzle adapter for passkey credential storage
+ * Works with PostgreSQL, MySQL and SQLite databases using the bundled table definitions
+ *
+ * @example
+ * ```typescript
+ * import { DrizzleAdapter, pgPasskeys } from "next-passkey-webauthn/drizzle";
+ *
+ * const adapter = new DrizzleAdapter(db, pgPasskeys);
+ * ```
+ */
+export class DrizzleAdapter implements PasskeyAdapter {
+  private readonly db: DrizzleClient<DrizzlePasskeysTable>;
+
+  constructor(
+    /** Drizzle database of the same dialect as the table (PgDatabase, MySqlDatabase, BaseSQLiteDatabase) */
+    db: DrizzleDatabase,
+    /** Passkeys table (pgPasskeys, mysqlPasskeys or sqlitePasskeys) */
+    private readonly table: DrizzlePasskeysTable
+  ) {
+    this.db = toDrizzleClient(db, table);
+  }
+
+  async createPasskey(
+    data: Omit<StoredCredential, "id" | "createdAt">
+  ): Promise<StoredCredential> {
+    // Generate the ID up front, since MySQL has no INSERT ... RETURNING
+    const id = crypto.randomUUID();
+
+    await this.db.insert({
+      id,
+      userId: data.userId,
+      credentialId: data.credentialId,
+      publicKey: data.publicKey,
+      counter: data.counter,
+      transports: data.transports || [],
+      userName: data.userName,
+      userDisplayName: data.userDisplayName,
+      // Enhanced metadata fields
+      authenticatorAttachment: data.authenticatorAttachment,
+      deviceInfo: data.deviceInfo,
+      backupEligible: data.backupEligible || false,
+      backupState: data.backupState || false,
+      aaguid: data.aaguid,
+      attestationFormat: data.attestationFormat,
+      lastUsedAt: data.lastUsedAt ? new Date(data.lastUsedAt) : undefined,
+      status: data.status || "active",
+    });
+
+    const [row] = await this.db.select(eq(this.table.id, id), { limit: 1 });
+
+    if (!row) {
+      throw new Error("Failed to create passkey: No data returned");
+    }
+
+    return this.mapDrizzleToStored(row);
+  }
+
+  async findByCredentialId(
+    credentialId: string
+  ): Promise<StoredCredential | null> {
+    const [row] = await this.db.select(
+      eq(this.table.credentialId, credentialId),
+      { limit: 1 }
+    );
+
+    return row ? this.mapDrizzleToStored(row) : null;
+  }
+
+  async listUserPasskeys(userId: string): Promise<StoredCredential[]> {
+    const rows = await this.db.select(eq(this.table.userId, userId), {
+      orderBy: desc(this.table.createdAt),
+    });
+
+    return rows.map((row) => this.mapDrizzleToStored(row));
+  }
+
+  async updateCounter(id: string, counter: number): Promise<void> {
+    await this.db.update({ counter }, eq(this.table.id, id));
+  }
+
+  async updateUsage(id: string, usage: PasskeyUsageUpdate): Promise<void> {
+    await this.db.update(
+      {
+        counter: usage.counter,
+        lastUsedAt: new Date(usage.lastUsedAt),
+        backupState: usage.backupState,
+        ...(usage.lastUsedDeviceInfo && {
+          lastUsedDeviceInfo: usage.lastUsedDeviceInfo,
+        }),
+      },
+      eq(this.table.id, id)
+    );
+  }
+
+  async renamePasskey(id: string, nickname: string): Promise<void> {
+    const [row] = await this.db.select(eq(this.table.id, id), { limit: 1 });
+
+    await this.db.update(
+      { deviceInfo: { ...row?.deviceInfo, nickname } },
+      eq(this.table.id, id)
+    );
+  }
+
+  async setSuspectedClone(id: string, suspectedClone: boolean): Promise<void> {
+    await this.db.update({ suspectedClone }, eq(this.table.id, id));
+  }
+
+  async setPasskeyStatus(
+    id: string,
+    update: PasskeyStatusUpdate
+  ): Promise<void> {
+    await this.db.update(
+      {
+        status: update.status,
+        revokedAt: update.revokedAt ? new Date(update.revokedAt) : null,
+        revokedReason: update.revokedReason ?? null,
+      },
+      eq(this.table.id, id)
+    );
+  }
+
+  async deletePasskey(id: string): Promise<void> {
+    await this.db.delete(eq(this.table.id, id));
+  }
+
+  private mapDrizzleToStored(row: DrizzlePasskeyRow): StoredCredential {
+    return {
+      id: row.id,
+      userId: row.userId,
+      credentialId: row.credentialId,
+      publicKey: row.publicKey,
+      counter: row.counter,
+      transports: row.transports || undefined,
+      userName: row.userName || undefined,
+      userDisplayName: row.userDisplayName || undefined,
+      // Enhanced metadata fields
+      authenticatorAttachment: row.authenticatorAttachment || undefined,
+      deviceInfo: row.deviceInfo || undefined,
+      backupEligible: row.backupEligible || undefined,
+      backupState: row.backupState || undefined,
+      aaguid: row.aaguid || undefined,
+      attestationFormat: row.attestationFormat || undefined,
+      lastUsedAt: row.lastUsedAt?.toISOString() || undefined,
+      lastUsedDeviceInfo: row.lastUsedDeviceInfo || undefined,
+      suspectedClone: row.suspectedClone || undefined,
+      status: row.status || undefined,
+      revokedAt: row.revokedAt?.toISOString() || undefined,
+      revokedReason: row.revokedReason || undefined,
+      // Standard timestamps
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt?.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,204 @@
+import { is, type SQL } from "drizzle-orm";
+import {
+  MySqlDatabase,
+  type MySqlQueryResultHKT,
+  MySqlTable,
+  type PreparedQueryHKTBase,
+} from "drizzle-orm/mysql-core";
+import {
+  PgDatabase,
+  type PgQueryResultHKT,
+  PgTable,
+} from "drizzle-orm/pg-core";
+import { BaseSQLiteDatabase } from "drizzle-orm/sqlite-core";
+import type {
+  DrizzleChallengesTable,
+  DrizzlePasskeysTable,
+  mysqlPasskeyChallenges,
+  mysqlPasskeys,
+  pgPasskeyChallenges,
+  pgPasskeys,
+  sqlitePasskeyChallenges,
+  sqlitePasskeys,
+} from "./schema";
+
+type PgDrizzleDatabase = PgDatabase<PgQueryResultHKT, Record<string, unknown>>;
+
+type MySqlDrizzleDatabase = MySqlDatabase<
+  MySqlQueryResultHKT,
+  PreparedQueryHKTBase,
+  Record<string, unknown>
+>;
+
+type SQLiteDrizzleDatabase = BaseSQLiteDatabase<
+  "sync" | "async",
+  unknown,
+  Record<string, unknown>
+>;
+
+/**
+ * Any Drizzle database: PostgreSQL, MySQL or SQLite (sync or async driver)
+ */
+export type DrizzleDatabase =
+  | PgDrizzleDatabase
+  | MySqlDrizzleDatabase
+  | SQLiteDrizzleDatabase;
+
+type BundledTable = DrizzlePasskeysTable | DrizzleChallengesTable;
+
+interface SelectOptions {
+  orderBy?: SQL;
+  limit?: number;
+}
+
+/**
+ * The queries DrizzleAdapter and DrizzleStore run against one bundled table
+ * Each dialect implements it with its own fully typed query builder.
+ */
+export interface DrizzleClient<TTable extends BundledTable> {
+  select(
+    where: SQL | undefined,
+    options?: SelectOptions
+  ): Promise<TTable["$inferSelect"][]>;
+  insert(values: TTable["$inferInsert"]): Promise<void>;
+  update(
+    values: Partial<TTable["$inferInsert"]>,
+    where: SQL | undefined
+  ): Promise<void>;
+  delete(where: SQL | undefined): Promise<void>;
+  /** Delete the matching row and return it, so only one caller gets it */
+  take(where: SQL | undefined): Promise<TTable["$inferSelect"] | undefined>;
+}
+
+/**
+ * Bind a Drizzle database to a bundled table of the same dialect
+ * Throws when the table belongs to a different dialect than the database.
+ */
+export function toDrizzleClient(
+  db: DrizzleDatabase,
+  table: DrizzlePasskeysTable
+): DrizzleClient<DrizzlePasskeysTable>;
+export function toDrizzleClient(
+  db: DrizzleDatabase,
+  table: DrizzleChallengesTable
+): DrizzleClient<DrizzleChallengesTable>;
+export function toDrizzleClient(
+  db: DrizzleDatabase,
+  table: BundledTable
+): DrizzleClient<BundledTable> {
+  if (is(table, PgTable)) {
+    if (is(db, PgDatabase)) {
+      return pgClient(db, table);
+    }
+  } else if (is(table, MySqlTable)) {
+    if (is(db, MySqlDatabase)) {
+      return mySqlClient(db, table);
+    }
+  } else if (is(db, BaseSQLiteDatabase)) {
+    return sqliteClient(db, table);
+  }
+
+  throw new Error(
+    "Drizzle table and database dialects do not match; use the pg*, mysql* or sqlite* tables for your database."
+  );
+}
+
+function pgClient(
+  db: PgDrizzleDatabase,
+  table: typeof pgPasskeys | typeof pgPasskeyChallenges
+): DrizzleClient<typeof pgPasskeys | typeof pgPasskeyChallenges> {
+  return {
+    async select(where, options = {}) {
+      let query = db.select().from(table).where(where).$dynamic();
+      if (options.orderBy) {
+        query = query.orderBy(options.orderBy);
+      }
+      if (options.limit) {
+        query = query.limit(options.limit);
+      }
+      return query;
+    },
+    async insert(values) {
+      await db.insert(table).values(values);
+    },
+    async update(values, where) {
+      await db.update(table).set(values).where(where);
+    },
+    async delete(where) {
+      await db.delete(table).where(where);
+    },
+    async take(where) {
+      // A single DELETE ... RETURNING hands the row to exactly one caller
+      const [row] = await db.delete(table).where(where).returning();
+      return row;
+    },
+  };
+}
+
+function mySqlClient(
+  db: MySqlDrizzleDatabase,
+  table: typeof mysqlPasskeys | typeof mysqlPasskeyChallenges
+): DrizzleClient<typeof mysqlPasskeys | typeof mysqlPasskeyChallenges> {
+  return {
+    async select(where, options = {}) {
+      let query = db.select().from(table).where(where).$dynamic();
+      if (options.orderBy) {
+        query = query.orderBy(options.orderBy);
+      }
+      if (options.limit) {
+        query = query.limit(options.limit);
+      }
+      return query;
+    },
+    async insert(values) {
+      await db.insert(table).values(values);
+    },
+    async update(values, where) {
+      await db.update(table).set(values).where(where);
+    },
+    async delete(where) {
+      await db.delete(table).where(where);
+    },
+    take(where) {
+      // MySQL has no DELETE ... RETURNING; lock the row, then delete it
+      return db.transaction(async (tx) => {
+        const [row] = await tx.select().from(table).where(where).for("update");
+        if (row) {
+          await tx.delete(table).where(where);
+        }
+        return row;
+      });
+    },
+  };
+}
+
+function sqliteClient(
+  db: SQLiteDrizzleDatabase,
+  table: typeof sqlitePasskeys | typeof sqlitePasskeyChallenges
+): DrizzleClient<typeof sqlitePasskeys | typeof sqlitePasskeyChallenges> {
+  return {
+    async select(where, options = {}) {
+      let query = db.select().from(table).where(where).$dynamic();
+      if (options.orderBy) {
+        query = query.orderBy(options.orderBy);
+      }
+      if (options.limit) {
+        query = query.limit(options.limit);
+      }
+      return query;
+    },
+    async insert(values) {
+      await db.insert(table).values(values);
+    },
+    async update(values, where) {
+      await db.update(table).set(values).where(where);
+    },
+    async delete(where) {
+      await db.delete(table).where(where);
+    },
+    async take(where) {
+      const [row] = await db.delete(table).where(where).returning();
+      return row;
+    },
+  };
+}
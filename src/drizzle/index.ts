@@ -0,0 +1,18 @@
+/**
+ * Drizzle ORM adapter, challenge store and table definitions
+ * Requires the optional `drizzle-orm` peer dependency
+ */
+
+export { DrizzleAdapter } from "./adapter";
+export { DrizzleStore } from "./store";
+export type { DrizzleDatabase } from "./database";
+export {
+  pgPasskeys,
+  pgPasskeyChallenges,
+  mysqlPasskeys,
+  mysqlPasskeyChallenges,
+  sqlitePasskeys,
+  sqlitePasskeyChallenges,
+  type DrizzlePasskeysTable,
+  type DrizzleChallengesTable,
+} from "./schema";
@@ -0,0 +1,270 @@
+/**
+ * Drizzle table definitions for passkeys and challenges
+ * Column names follow the setup guides, but the column types are Drizzle's own
+ * (text IDs, JSON transports, integer timestamps on SQLite), so create these
+ * tables with drizzle-kit rather than pointing them at tables from the guides
+ * or runMigrations.
+ */
+
+import * as mysql from "drizzle-orm/mysql-core";
+import * as pg from "drizzle-orm/pg-core";
+import * as sqlite from "drizzle-orm/sqlite-core";
+import type {
+  AuthenticatorAttachment,
+  Flow,
+  PasskeyDeviceInfo,
+  PasskeyStatus,
+  UserVerificationRequirement,
+} from "../types/index";
+
+// PostgreSQL
+
+export const pgPasskeys = pg.pgTable(
+  "passkeys",
+  {
+    id: pg.text("id").primaryKey(),
+    userId: pg.text("user_id").notNull(),
+    credentialId: pg.text("credential_id").notNull().unique(),
+    publicKey: pg.text("public_key").notNull(),
+    counter: pg.bigint("counter", { mode: "number" }).notNull().default(0),
+    transports: pg.jsonb("transports").$type<string[]>(),
+    userName: pg.text("user_name"),
+    userDisplayName: pg.text("user_display_name"),
+    authenticatorAttachment: pg
+      .text("authenticator_attachment")
+      .$type<AuthenticatorAttachment>(),
+    deviceInfo: pg.jsonb("device_info").$type<PasskeyDeviceInfo>(),
+    backupEligible: pg.boolean("backup_eligible").notNull().default(false),
+    backupState: pg.boolean("backup_state").notNull().default(false),
+    aaguid: pg.text("aaguid"),
+    attestationFormat: pg.text("attestation_format"),
+    lastUsedAt: pg.timestamp("last_used_at", { withTimezone: true }),
+    lastUsedDeviceInfo: pg
+      .jsonb("last_used_device_info")
+      .$type<PasskeyDeviceInfo>(),
+    suspectedClone: pg.boolean("suspected_clone").notNull().default(false),
+    status: pg
+      .text("status")
+      .$type<PasskeyStatus>()
+      .notNull()
+      .default("active"),
+    revokedAt: pg.timestamp("revoked_at", { withTimezone: true }),
+    revokedReason: pg.text("revoked_reason"),
+    createdAt: pg
+      .timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: pg
+      .timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [pg.index("idx_passkeys_user_id").on(table.userId)]
+);
+
+export const pgPasskeyChallenges = pg.pgTable(
+  "passkey_challenges",
+  {
+    id: pg.text("id").primaryKey(),
+    userId: pg.text("user_id").notNull(),
+    flow: pg.text("flow").$type<Flow>().notNull(),
+    challenge: pg.text("challenge").notNull(),
+    expiresAt: pg.timestamp("expires_at", { withTimezone: true }).notNull(),
+    userVerification: pg
+      .text("user_verification")
+      .$type<UserVerificationRequirement>(),
+    supportedAlgorithmIds: pg
+      .jsonb("supported_algorithm_ids")
+      .$type<number[]>(),
+    createdAt: pg
+      .timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    pg.index("idx_passkey_challenges_user_id").on(table.userId),
+    pg.index("idx_passkey_challenges_expires_at").on(table.expiresAt),
+  ]
+);
+
+// MySQL
+
+/**
+ * Credential IDs are base64url (ASCII) and up to 1366 characters long; an
+ * ASCII column keeps the unique index within InnoDB's 3072-byte key limit
+ */
+const mysqlCredentialId = mysql.customType<{ data: string }>({
+  dataType: () => "varchar(1366) CHARACTER SET ascii",
+});
+
+export const mysqlPasskeys = mysql.mysqlTable(
+  "passkeys",
+  {
+    id: mysql.varchar("id", { length: 36 }).primaryKey(),
+    userId: mysql.varchar("user_id", { length: 255 }).notNull(),
+    credentialId: mysqlCredentialId("credential_id").notNull().unique(),
+    publicKey: mysql.text("public_key").notNull(),
+    counter: mysql.bigint("counter", { mode: "number" }).notNull().default(0),
+    transports: mysql.json("transports").$type<string[]>(),
+    userName: mysql.varchar("user_name", { length: 255 }),
+    userDisplayName: mysql.varchar("user_display_name", { length: 255 }),
+    authenticatorAttachment: mysql
+      .varchar("authenticator_attachment", { length: 32 })
+      .$type<AuthenticatorAttachment>(),
+    deviceInfo: mysql.json("device_info").$type<PasskeyDeviceInfo>(),
+    backupEligible: mysql.boolean("backup_eligible").notNull().default(false),
+    backupState: mysql.boolean("backup_state").notNull().default(false),
+    aaguid: mysql.varchar("aaguid", { length: 36 }),
+    attestationFormat: mysql.varchar("attestation_format", { length: 32 }),
+    lastUsedAt: mysql.timestamp("last_used_at", { fsp: 3 }),
+    lastUsedDeviceInfo: mysql
+      .json("last_used_device_info")
+      .$type<PasskeyDeviceInfo>(),
+    suspectedClone: mysql.boolean("suspected_clone").notNull().default(false),
+    status: mysql
+      .varchar("status", { length: 16 })
+      .$type<PasskeyStatus>()
+      .notNull()
+      .default("active"),
+    revokedAt: mysql.timestamp("revoked_at", { fsp: 3 }),
+    revokedReason: mysql.varchar("revoked_reason", { length: 255 }),
+    createdAt: mysql.timestamp("created_at", { fsp: 3 }).notNull().defaultNow(),
+    updatedAt: mysql
+      .timestamp("updated_at", { fsp: 3 })
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [mysql.index("idx_passkeys_user_id").on(table.userId)]
+);
+
+export const mysqlPasskeyChallenges = mysql.mysqlTable(
+  "passkey_challenges",
+  {
+    id: mysql.varchar("id", { length: 36 }).primaryKey(),
+    userId: mysql.varchar("user_id", { length: 255 }).notNull(),
+    flow: mysql.varchar("flow", { length: 16 }).$type<Flow>().notNull(),
+    challenge: mysql.varchar("challenge", { length: 255 }).notNull(),
+    expiresAt: mysql.timestamp("expires_at", { fsp: 3 }).notNull(),
+    userVerification: mysql
+      .varchar("user_verification", { length: 16 })
+      .$type<UserVerificationRequirement>(),
+    supportedAlgorithmIds: mysql
+      .json("supported_algorithm_ids")
+      .$type<number[]>(),
+    createdAt: mysql.timestamp("created_at", { fsp: 3 }).notNull().defaultNow(),
+  },
+  (table) => [
+    mysql.index("idx_passkey_challenges_user_id").on(table.userId),
+    mysql.index("idx_passkey_challenges_expires_at").on(table.expiresAt),
+  ]
+);
+
+// SQLite
+
+export const sqlitePasskeys = sqlite.sqliteTable(
+  "passkeys",
+  {
+    id: sqlite.text("id").primaryKey(),
+    userId: sqlite.text("user_id").notNull(),
+    credentialId: sqlite.text("credential_id").notNull().unique(),
+    publicKey: sqlite.text("public_key").notNull(),
+    counter: sqlite.integer("counter").notNull().default(0),
+    transports: sqlite.text("transports", { mode: "json" }).$type<string[]>(),
+    userName: sqlite.text("user_name"),
+    userDisplayName: sqlite.text("user_display_name"),
+    authenticatorAttachment: sqlite
+      .text("authenticator_attachment")
+      .$type<AuthenticatorAttachment>(),
+    deviceInfo: sqlite
+      .text("device_info", { mode: "json" })
+      .$type<PasskeyDeviceInfo>(),
+    backupEligible: sqlite
+      .integer("backup_eligible", { mode: "boolean" })
+      .notNull()
+      .default(false),
+    backupState: sqlite
+      .integer("backup_state", { mode: "boolean" })
+      .notNull()
+      .default(false),
+    aaguid: sqlite.text("aaguid"),
+    attestationFormat: sqlite.text("attestation_format"),
+    lastUsedAt: sqlite.integer("last_used_at", { mode: "timestamp_ms" }),
+    lastUsedDeviceInfo: sqlite
+      .text("last_used_device_info", { mode: "json" })
+      .$type<PasskeyDeviceInfo>(),
+    suspectedClone: sqlite
+      .integer("suspected_clone", { mode: "boolean" })
+      .notNull()
+      .default(false),
+    status: sqlite
+      .text("status")
+      .$type<PasskeyStatus>()
+      .notNull()
+      .default("active"),
+    revokedAt: sqlite.integer("revoked_at", { mode: "timestamp_ms" }),
+    revokedReason: sqlite.text("revoked_reason"),
+    createdAt: sqlite
+      .integer("created_at", { mode: "timestamp_ms" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+    updatedAt: sqlite
+      .integer("updated_at", { mode: "timestamp_ms" })
+      .notNull()
+      .$defaultFn(() => new Date())
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [sqlite.index("idx_passkeys_user_id").on(table.userId)]
+);
+
+export const sqlitePasskeyChallenges = sqlite.sqliteTable(
+  "passkey_challenges",
+  {
+    id: sqlite.text("id").primaryKey(),
+    userId: sqlite.text("user_id").notNull(),
+    flow: sqlite.text("flow").$type<Flow>().notNull(),
+    challenge: sqlite.text("challenge").notNull(),
+    expiresAt: sqlite.integer("expires_at", { mode: "timestamp_ms" }).notNull(),
+    userVerification: sqlite
+      .text("user_verification")
+      .$type<UserVerificationRequirement>(),
+    supportedAlgorithmIds: sqlite
+      .text("supported_algorithm_ids", { mode: "json" })
+      .$type<number[]>(),
+    createdAt: sqlite
+      .integer("created_at", { mode: "timestamp_ms" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [
+    sqlite.index("idx_passkey_challenges_user_id").on(table.userId),
+    sqlite.index("idx_passkey_challenges_expires_at").on(table.expiresAt),
+  ]
+);
+
+/**
+ * Any of the bundled passkey tables
+ */
+export type DrizzlePasskeysTable =
+  | typeof pgPasskeys
+  | typeof mysqlPasskeys
+  | typeof sqlitePasskeys;
+
+/**
+ * Any of the bundled challenge tables
+ */
+export type DrizzleChallengesTable =
+  | typeof pgPasskeyChallenges
+  | typeof mysqlPasskeyChallenges
+  | typeof sqlitePasskeyChallenges;
+
+/**
+ * Row selected from any of the bundled passkey tables
+ */
+export type DrizzlePasskeyRow = DrizzlePasskeysTable["$inferSelect"];
+
+/**
+ * Row selected from any of the bundled challenge tables
+ */
+export type DrizzleChallengeRow = DrizzleChallengesTable["$inferSelect"];
@@ -0,0 +1,105 @@
+import { desc, eq, inArray, lte } from "drizzle-orm";
+import type { ChallengeRecord, ChallengeStore } from "../types/index";
+import {
+  type DrizzleClient,
+  type DrizzleDatabase,
+  toDrizzleClient,
+} from "./database";
+import type { DrizzleChallengeRow, DrizzleChallengesTable } from "./schema";
+
+/**
+ * Drizzle-based challenge store
+ * Works with PostgreSQL, MySQL and SQLite databases using the bundled table definitions
+ *
+ * @example
+ * ```typescript
+ * import { DrizzleStore, pgPasskeyChallenges } from "next-passkey-webauthn/drizzle";
+ *
+ * const store = new DrizzleStore(db, pgPasskeyChallenges);
+ * ```
+ */
+export class DrizzleStore implements ChallengeStore {
+  private readonly db: DrizzleClient<DrizzleChallengesTable>;
+
+  constructor(
+    /** Drizzle database of the same dialect as the table (PgDatabase, MySqlDatabase, BaseSQLiteDatabase) */
+    db: DrizzleDatabase,
+    /** Challenges table (pgPasskeyChallenges, mysqlPasskeyChallenges or sqlitePasskeyChallenges) */
+    private readonly table: DrizzleChallengesTable,
+    /** Maximum outstanding challenges per user; the oldest are evicted (default: 5) */
+    private readonly maxChallengesPerUser = 5
+  ) {
+    this.db = toDrizzleClient(db, table);
+  }
+
+  async set(record: ChallengeRecord): Promise<void> {
+    await this.db.insert({
+      id: record.id,
+      userId: record.userId,
+      flow: record.flow,
+      challenge: record.challenge,
+      expiresAt: new Date(record.expiresAt),
+      userVerification: record.userVerification,
+      supportedAlgorithmIds: record.supportedAlgorithmIDs,
+    });
+
+    await this.evictOldest(record.userId);
+  }
+
+  async get(id: string): Promise<ChallengeRecord | null> {
+    // First cleanup expired challenges
+    await this.cleanupExpired();
+
+    const [row] = await this.db.select(eq(this.table.id, id), { limit: 1 });
+
+    return row ? this.toRecord(row) : null;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.delete(eq(this.table.id, id));
+  }
+
+  async consume(id: string): Promise<ChallengeRecord | null> {
+    // Deleting and reading the row in one step hands it to exactly one caller
+    const row = await this.db.take(eq(this.table.id, id));
+    if (!row) {
+      return null;
+    }
+
+    const record = this.toRecord(row);
+    return Date.now() > record.expiresAt ? null : record;
+  }
+
+  /**
+   * Clean up expired challenges (called automatically in get)
+   */
+  async cleanupExpired(): Promise<void> {
+    await this.db.delete(lte(this.table.expiresAt, new Date()));
+  }
+
+  /**
+   * Delete a user's oldest challenges beyond the per-user cap
+   */
+  private async evictOldest(userId: string): Promise<void> {
+    const rows = await this.db.select(eq(this.table.userId, userId), {
+      orderBy: desc(this.table.expiresAt),
+    });
+
+    const evicted = rows.slice(this.maxChallengesPerUser).map((row) => row.id);
+    if (evicted.length > 0) {
+      await this.db.delete(inArray(this.table.id, evicted));
+    }
+  }
+
+  private toRecord(row: DrizzleChallengeRow): ChallengeRecord {
+    return {
+      id: row.id,
+      userId: row.userId,
+      flow: row.flow,
+      challenge: row.challenge,
+      expiresAt: new Date(row.expiresAt).getTime(),
+      userVerification: row.userVerification ?? undefined,
+      supportedAlgorithmIDs: row.supportedAlgorithmIds ?? undefined,
+    };
+  }
+}
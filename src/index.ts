@@ -30,8 +30,23 @@ export {
   finishRegistration,
   startAuthentication,
   finishAuthentication,
+  startDiscoverableAuthentication,
+  finishDiscoverableAuthentication,
   deletePasskey,
+  disablePasskey,
+  enablePasskey,
+  restorePasskey,
+  revokePasskey,
   listUserPasskeys,
+  renamePasskey,
+  createPasskeyHandlers,
+  requireUserId,
+  getEventContext,
+  loadMetadataBlob,
+  parseMetadataBlob,
+  HmacSessionIssuer,
+  getSession,
+  destroySession,
 } from "./server/index";
 
 export {
@@ -45,28 +60,82 @@ export {
   // Adapters
   PrismaAdapter,
   SupabaseAdapter,
+  MemoryAdapter,
+  DbAdapter,
+  MongoAdapter,
   type PrismaClient,
+  type DbAdapterOptions,
 } from "./adapters/index";
 
 export {
   // Stores
   RedisStore,
   DbStore,
+  MemoryStore,
+  MongoStore,
+  KVStore,
+  CookieChallengeStore,
+  DbAuditLogStore,
+  MemoryAuditLogStore,
+  RedisRateLimiter,
+  MemoryRateLimiter,
+  runMigrations,
   type RedisClient,
+  type KVClient,
   type DatabaseClient,
+  type MongoCollection,
+  type DbStoreOptions,
+  type MigrationOptions,
+  type RateLimiterOptions,
+  type SqlDialect,
 } from "./store/index";
 
 export {
   // Core types
   PasskeyError,
   ErrorCodes,
+  ErrorStatusCodes,
   type StoredCredential,
+  type PasskeyStatus,
+  type PasskeyStatusUpdate,
   type PasskeyAdapter,
   type ChallengeStore,
   type ChallengeRecord,
+  type ChallengeStoreContext,
   type ServerOptions,
   type RPConfig,
   type ClientConfig,
   type Flow,
   type ErrorCode,
+  type PasskeyHandlers,
+  type PasskeyHandlerOptions,
+  type PasskeySession,
+  type SessionIssuer,
+  type SessionOptions,
+  type SecurityEvent,
+  type PasskeyEvent,
+  type PasskeyEventType,
+  type PasskeyEventContext,
+  type ClientIpOptions,
+  type AuditLogStore,
+  type AuditLogEntry,
+  type AuditLogQuery,
+  type RateLimiter,
+  type RateLimitSubject,
+  type RateLimitResult,
+  type SecurityOptions,
+  type AntiEnumerationOptions,
+  type CounterRegressionPolicy,
+  type AttestationConveyance,
+  type UserVerificationRequirement,
+  type CredentialSelection,
+  type PublicKeyCredentialHint,
+  type RegistrationPolicy,
+  type AuthenticationDefaults,
+  type RegistrationDefaults,
+  type RegistrationPreset,
+  type AuthenticatorSelectionOptions,
+  type ResidentKeyRequirement,
+  type CertificationLevel,
+  type AuthenticatorMetadataEntry,
 } from "./types/index";
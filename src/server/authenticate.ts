@@ -5,15 +5,26 @@ import {
   generateAuthenticationOptions,
   verifyAuthenticationResponse,
 } from "@simplewebauthn/server";
+import { isoBase64URL } from "@simplewebauthn/server/helpers";
 import {
+  type AuthenticationFinishOptions,
   type AuthenticationStartOptions,
   type ChallengeRecord,
+  type CredentialSelection,
   ErrorCodes,
   type Flow,
+  type IssuedSession,
   PasskeyError,
+  type PublicKeyCredentialHint,
   type ServerOptions,
   type StoredCredential,
+  type UserVerificationRequirement,
 } from "../types/index";
+import { type CredentialDescriptor, getDecoyCredentials } from "./enumeration";
+import { emitEvent, emitSecurityEvent, toPasskeyError } from "./events";
+import { enforceRateLimit, recordAuthenticationResult } from "./rate-limit";
+import { issueSession } from "./session";
+import { resolveTimeout } from "./timeout";
 
 /**
  * Start passkey authentication flow
@@ -22,77 +33,61 @@ export async function startAuthentication(
   userId: string,
   options: ServerOptions,
   authOptions?: AuthenticationStartOptions
-): Promise<PublicKeyCredentialRequestOptionsJSON> {
+): Promise<PublicKeyCredentialRequestOptionsJSON & { challengeId: string }> {
   try {
-    // Get user's credentials
-    const userCredentials = await options.adapter.listUserPasskeys(userId);
+    await enforceRateLimit(options, userId);
+
+    // Get user's active credentials, skipping any disabled as suspected clones
+    let userCredentials: CredentialDescriptor[] = (
+      await options.adapter.listUserPasskeys(userId)
+    ).filter((cred) => isActive(cred) && !isDisabledClone(cred, options));
 
     if (userCredentials.length === 0) {
-      throw new PasskeyError(
-        "No passkeys found for user",
-        ErrorCodes.CREDENTIAL_NOT_FOUND
-      );
+      const antiEnumeration = options.security?.antiEnumeration;
+      if (!antiEnumeration) {
+        throw new PasskeyError(
+          "No passkeys found for user",
+          ErrorCodes.CREDENTIAL_NOT_FOUND
+        );
+      }
+      // Answer like a real user would; no credential matches the decoys, so finish fails
+      userCredentials = await getDecoyCredentials(userId, antiEnumeration);
     }
 
-    // Prepare credentials for authentication with proper credential ID handling
-    const allowCredentials = userCredentials.map((cred) => {
-      // Ensure credential ID is properly formatted for WebAuthn
-      let credentialId = cred.credentialId;
-
-      return {
-        id: credentialId,
-        type: "public-key" as const,
-        transports: cred.transports as AuthenticatorTransportFuture[],
-      };
-    });
-
-    // Smart authentication strategy based on available authenticators
-    const hasPlatformAuthenticators = userCredentials.some(
-      (cred) => cred.authenticatorAttachment === "platform"
+    const timeout = resolveTimeout(authOptions?.timeout);
+    const userVerification = resolveUserVerification(options, authOptions);
+    const { allowCredentials, hints } = selectCredentials(
+      userCredentials,
+      authOptions?.credentialSelection ||
+        options.credentialSelection ||
+        "always-list"
     );
 
-    // If user has platform authenticators, prioritize them for better UX
-    let finalUserVerification = authOptions?.userVerification || "preferred";
-    let finalTimeout = authOptions?.timeout || 1000 * 60 * 5; // 5 minutes
-
-    if (hasPlatformAuthenticators && !authOptions?.userVerification) {
-      // For platform authenticators, require user verification to ensure Touch ID/Face ID prompt
-      finalUserVerification = "required";
-      // Shorter timeout for platform auth (better UX)
-      finalTimeout = Math.min(finalTimeout, 1000 * 60); // 1 minute
-    }
-
-    // Generate authentication options with smart credential handling
-    // If user has platform authenticators, don't specify allowCredentials to let WebAuthn find them
-    // This works around credential ID matching issues while maintaining security
-    const webAuthnOptions: any = {
+    const authenticationOpts = await generateAuthenticationOptions({
       rpID: options.rpConfig.rpID,
-      timeout: finalTimeout,
-      userVerification: finalUserVerification,
-    };
-
-    // Only add allowCredentials for cross-platform authenticators or when explicitly needed
-    if (!hasPlatformAuthenticators) {
-      webAuthnOptions.allowCredentials = allowCredentials;
-    }
-
-    const authenticationOpts = await generateAuthenticationOptions(
-      webAuthnOptions
-    );
+      timeout,
+      userVerification,
+      allowCredentials,
+    });
 
-    // Store challenge with consistent timeout
-    const expiresAt = Date.now() + finalTimeout;
+    // Store challenge under a random ID so concurrent ceremonies don't collide
+    const challengeId = crypto.randomUUID();
     const challengeRecord: ChallengeRecord = {
-      id: `${userId}:authentication`,
+      id: challengeId,
       userId,
       flow: "authentication" as Flow,
       challenge: authenticationOpts.challenge,
-      expiresAt,
+      expiresAt: Date.now() + timeout,
+      userVerification,
     };
 
     await options.store.set(challengeRecord);
 
-    return authenticationOpts;
+    return withHints(
+      authenticationOpts,
+      authOptions?.hints ?? hints,
+      challengeId
+    );
   } catch (error) {
     if (error instanceof PasskeyError) {
       throw error;
@@ -111,12 +106,26 @@ export async function startAuthentication(
 export async function finishAuthentication(
   userId: string,
   credential: AuthenticationResponseJSON,
-  options: ServerOptions
-): Promise<{ verified: boolean; credential?: StoredCredential }> {
+  options: ServerOptions,
+  finishOptions: AuthenticationFinishOptions & { challengeId: string }
+): Promise<{
+  verified: boolean;
+  credential?: StoredCredential;
+  session?: IssuedSession;
+}> {
   try {
-    // Retrieve challenge
-    const challengeRecord = await options.store.get(userId, "authentication");
-    if (!challengeRecord) {
+    await enforceRateLimit(options, userId);
+
+    // Consume the challenge up front so it can only ever be used once
+    const challengeRecord = await options.store.consume(
+      finishOptions.challengeId
+    );
+    // A challenge issued to another user or flow is treated as missing
+    if (
+      !challengeRecord ||
+      challengeRecord.userId !== userId ||
+      challengeRecord.flow !== "authentication"
+    ) {
       throw new PasskeyError(
         "Challenge not found or expired",
         ErrorCodes.CHALLENGE_NOT_FOUND
@@ -125,7 +134,6 @@ export async function finishAuthentication(
 
     // Check if challenge is expired
     if (Date.now() > challengeRecord.expiresAt) {
-      await options.store.delete(userId, "authentication");
       throw new PasskeyError("Challenge expired", ErrorCodes.CHALLENGE_EXPIRED);
     }
 
@@ -138,7 +146,6 @@ export async function finishAuthentication(
     );
 
     if (!storedCredential) {
-      await options.store.delete(userId, "authentication");
       throw new PasskeyError(
         "Credential not found",
         ErrorCodes.CREDENTIAL_NOT_FOUND
@@ -147,68 +154,425 @@ export async function finishAuthentication(
 
     // Verify the credential belongs to the user
     if (storedCredential.userId !== userId) {
-      await options.store.delete(userId, "authentication");
       throw new PasskeyError(
         "Credential does not belong to user",
         ErrorCodes.VERIFICATION_FAILED
       );
     }
 
-    // Prepare authenticator data for verification
-    const authenticator = {
-      id: storedCredential.credentialId,
-      publicKey: Buffer.from(storedCredential.publicKey, "base64url"),
-      counter: storedCredential.counter,
-      transports: storedCredential.transports as AuthenticatorTransportFuture[],
-    };
+    const verifiedCredential = await verifyAssertion(
+      credential,
+      storedCredential,
+      challengeRecord,
+      options,
+      finishOptions
+    );
+    const session = await issueSession(
+      verifiedCredential.userId,
+      verifiedCredential.credentialId,
+      options
+    );
+
+    await recordAuthenticationResult(options, userId);
+    await emitEvent(options, {
+      type: "authentication_succeeded",
+      userId,
+      credentialId: verifiedCredential.credentialId,
+    });
+
+    return { verified: true, credential: verifiedCredential, session };
+  } catch (error) {
+    const passkeyError = toPasskeyError(
+      error,
+      "Failed to finish authentication",
+      ErrorCodes.VERIFICATION_FAILED
+    );
+    await recordAuthenticationResult(options, userId, passkeyError);
+    await emitEvent(options, {
+      type: "authentication_failed",
+      userId,
+      credentialId: credential.id,
+      error: passkeyError,
+    });
+    throw passkeyError;
+  }
+}
 
-    // Verify the authentication response
-    const verification = await verifyAuthenticationResponse({
-      response: credential,
-      expectedChallenge: challengeRecord.challenge,
-      expectedOrigin: options.rpConfig.expectedOrigin,
-      expectedRPID: options.rpConfig.rpID,
-      credential: authenticator,
-      requireUserVerification: false,
+/**
+ * Start a usernameless (discoverable credential) authentication flow
+ * The challenge is keyed by an opaque challenge ID instead of a user ID, so the
+ * browser can offer any passkey it holds for this RP (including via autofill)
+ */
+export async function startDiscoverableAuthentication(
+  options: ServerOptions,
+  authOptions?: AuthenticationStartOptions
+): Promise<PublicKeyCredentialRequestOptionsJSON & { challengeId: string }> {
+  try {
+    // The user is unknown until a credential is presented, so only the IP (or, without
+    // one, the shared anonymous bucket) is limited
+    await enforceRateLimit(options);
+
+    const timeout = resolveTimeout(authOptions?.timeout);
+    const userVerification = resolveUserVerification(options, authOptions);
+
+    // No allowCredentials: the authenticator picks a discoverable credential
+    const authenticationOpts = await generateAuthenticationOptions({
+      rpID: options.rpConfig.rpID,
+      timeout,
+      userVerification,
     });
 
-    // Clean up challenge immediately after verification
-    await options.store.delete(userId, "authentication");
+    // The challenge ID stands in for the user ID until the user is resolved
+    const challengeId = crypto.randomUUID();
+    const challengeRecord: ChallengeRecord = {
+      id: challengeId,
+      userId: challengeId,
+      flow: "authentication" as Flow,
+      challenge: authenticationOpts.challenge,
+      expiresAt: Date.now() + timeout,
+      userVerification,
+    };
+
+    await options.store.set(challengeRecord);
+
+    return withHints(authenticationOpts, authOptions?.hints, challengeId);
+  } catch (error) {
+    if (error instanceof PasskeyError) {
+      throw error;
+    }
+    throw new PasskeyError(
+      "Failed to start authentication",
+      ErrorCodes.STORAGE_ERROR,
+      error
+    );
+  }
+}
+
+/**
+ * Complete a usernameless authentication flow
+ * The user is resolved from the credential's user handle and the stored credential
+ */
+export async function finishDiscoverableAuthentication(
+  challengeId: string,
+  credential: AuthenticationResponseJSON,
+  options: ServerOptions,
+  finishOptions?: AuthenticationFinishOptions
+): Promise<{
+  verified: boolean;
+  credential?: StoredCredential;
+  session?: IssuedSession;
+}> {
+  // Owner of the presented credential, once it has been found
+  let ownerId: string | undefined;
+
+  try {
+    await enforceRateLimit(options);
 
-    if (!verification.verified) {
+    // Consume the challenge up front so it can only ever be used once
+    const challengeRecord = await options.store.consume(challengeId);
+    // Only accept challenges from startDiscoverableAuthentication, which keys them by
+    // their own ID; challenges issued to a specific user belong to finishAuthentication
+    if (
+      !challengeRecord ||
+      challengeRecord.flow !== "authentication" ||
+      challengeRecord.userId !== challengeId
+    ) {
       throw new PasskeyError(
-        "Authentication verification failed",
-        ErrorCodes.VERIFICATION_FAILED,
-        verification
+        "Challenge not found or expired",
+        ErrorCodes.CHALLENGE_NOT_FOUND
       );
     }
 
-    // Update the counter if verification succeeded
-    const newCounter = verification.authenticationInfo.newCounter;
-    if (newCounter > storedCredential.counter) {
-      await options.adapter.updateCounter(storedCredential.id, newCounter);
-      storedCredential.counter = newCounter;
+    // Check if challenge is expired
+    if (Date.now() > challengeRecord.expiresAt) {
+      throw new PasskeyError("Challenge expired", ErrorCodes.CHALLENGE_EXPIRED);
     }
 
-    return {
-      verified: true,
-      credential: storedCredential,
-    };
-  } catch (error) {
-    // Clean up challenge on any error
-    try {
-      await options.store.delete(userId, "authentication");
-    } catch {
-      // Ignore cleanup errors
+    // Discoverable credentials always return the user handle set at registration
+    const userHandle = credential.response.userHandle;
+    if (!userHandle) {
+      throw new PasskeyError(
+        "Credential response is missing a user handle",
+        ErrorCodes.VERIFICATION_FAILED
+      );
     }
 
-    if (error instanceof PasskeyError) {
-      throw error;
+    const storedCredential = await options.adapter.findByCredentialId(
+      credential.id
+    );
+
+    if (!storedCredential) {
+      throw new PasskeyError(
+        "Credential not found",
+        ErrorCodes.CREDENTIAL_NOT_FOUND
+      );
     }
-    throw new PasskeyError(
+    ownerId = storedCredential.userId;
+
+    // The user handle must match the owner of the stored credential
+    const userId = isoBase64URL.toUTF8String(userHandle);
+    if (storedCredential.userId !== userId) {
+      throw new PasskeyError(
+        "Credential does not belong to user",
+        ErrorCodes.VERIFICATION_FAILED
+      );
+    }
+
+    const verifiedCredential = await verifyAssertion(
+      credential,
+      storedCredential,
+      challengeRecord,
+      options,
+      finishOptions
+    );
+    const session = await issueSession(
+      verifiedCredential.userId,
+      verifiedCredential.credentialId,
+      options
+    );
+
+    await recordAuthenticationResult(options, userId);
+    await emitEvent(options, {
+      type: "authentication_succeeded",
+      userId,
+      credentialId: verifiedCredential.credentialId,
+    });
+
+    return { verified: true, credential: verifiedCredential, session };
+  } catch (error) {
+    const passkeyError = toPasskeyError(
+      error,
       "Failed to finish authentication",
+      ErrorCodes.VERIFICATION_FAILED
+    );
+    await recordAuthenticationResult(options, ownerId, passkeyError);
+    await emitEvent(options, {
+      type: "authentication_failed",
+      userId: ownerId,
+      credentialId: credential.id,
+      error: passkeyError,
+    });
+    throw passkeyError;
+  }
+}
+
+/**
+ * Verify an assertion against a stored credential and record its usage
+ * The challenge record must already have been consumed from the store
+ */
+async function verifyAssertion(
+  credential: AuthenticationResponseJSON,
+  storedCredential: StoredCredential,
+  challengeRecord: ChallengeRecord,
+  options: ServerOptions,
+  finishOptions?: AuthenticationFinishOptions
+): Promise<StoredCredential> {
+  if (storedCredential.status === "revoked") {
+    throw new PasskeyError(
+      "This passkey has been revoked",
+      ErrorCodes.CREDENTIAL_REVOKED
+    );
+  }
+  if (storedCredential.status === "disabled") {
+    throw new PasskeyError(
+      "This passkey has been disabled",
+      ErrorCodes.CREDENTIAL_DISABLED
+    );
+  }
+  if (isDisabledClone(storedCredential, options)) {
+    throw new PasskeyError(
+      "This passkey has been disabled because it may have been cloned",
+      ErrorCodes.SUSPECTED_CLONE
+    );
+  }
+
+  // Prepare authenticator data for verification
+  // Counter regressions are checked below so the configured policy can apply
+  const authenticator = {
+    id: storedCredential.credentialId,
+    publicKey: isoBase64URL.toBuffer(storedCredential.publicKey),
+    counter: 0,
+    transports: storedCredential.transports as AuthenticatorTransportFuture[],
+  };
+
+  // Verify the authentication response
+  const verification = await verifyAuthenticationResponse({
+    response: credential,
+    expectedChallenge: challengeRecord.challenge,
+    expectedOrigin: options.rpConfig.expectedOrigin,
+    expectedRPID: options.rpConfig.rpID,
+    credential: authenticator,
+    requireUserVerification: false,
+  });
+
+  if (!verification.verified) {
+    throw new PasskeyError(
+      "Authentication verification failed",
       ErrorCodes.VERIFICATION_FAILED,
-      error
+      verification
     );
   }
+
+  const { newCounter, credentialBackedUp, userVerified } =
+    verification.authenticationInfo;
+
+  // Enforce the user verification requested when the challenge was issued
+  if (challengeRecord.userVerification === "required" && !userVerified) {
+    throw new PasskeyError(
+      "User verification is required to sign in with this passkey",
+      ErrorCodes.USER_VERIFICATION_REQUIRED
+    );
+  }
+
+  // A non-zero counter that fails to increase signals a cloned authenticator
+  const storedCounter = storedCredential.counter;
+  if ((newCounter > 0 || storedCounter > 0) && newCounter <= storedCounter) {
+    const action = options.security?.counterRegressionPolicy ?? "reject";
+
+    await options.adapter.setSuspectedClone(storedCredential.id, true);
+    storedCredential.suspectedClone = true;
+
+    await emitEvent(options, {
+      type: "counter_anomaly",
+      userId: storedCredential.userId,
+      credentialId: storedCredential.credentialId,
+      details: { storedCounter, receivedCounter: newCounter, action },
+    });
+    await emitSecurityEvent(options, {
+      type: "counter_regression",
+      userId: storedCredential.userId,
+      credentialId: storedCredential.credentialId,
+      storedCounter,
+      receivedCounter: newCounter,
+      action,
+      timestamp: new Date().toISOString(),
+    });
+
+    if (action !== "allow-and-flag") {
+      throw new PasskeyError(
+        "Authenticator counter did not increase; the passkey may have been cloned",
+        ErrorCodes.SUSPECTED_CLONE,
+        { storedCounter, receivedCounter: newCounter }
+      );
+    }
+  }
+
+  // Record usage metadata; the counter only ever moves forward
+  const usage = {
+    counter: Math.max(newCounter, storedCredential.counter),
+    lastUsedAt: new Date().toISOString(),
+    backupState: credentialBackedUp,
+    lastUsedDeviceInfo: finishOptions?.deviceInfo,
+  };
+
+  await options.adapter.updateUsage(storedCredential.id, usage);
+
+  return {
+    ...storedCredential,
+    ...usage,
+    lastUsedDeviceInfo:
+      usage.lastUsedDeviceInfo ?? storedCredential.lastUsedDeviceInfo,
+  };
+}
+
+/**
+ * Whether a credential may authenticate (a missing status means active)
+ */
+function isActive(credential: StoredCredential): boolean {
+  return (credential.status ?? "active") === "active";
+}
+
+/**
+ * Whether a credential was flagged as cloned under the "disable" policy
+ */
+function isDisabledClone(
+  credential: StoredCredential,
+  options: ServerOptions
+): boolean {
+  return (
+    credential.suspectedClone === true &&
+    options.security?.counterRegressionPolicy === "disable"
+  );
+}
+
+/**
+ * Build `allowCredentials` and hints for a user's passkeys under a selection strategy
+ */
+function selectCredentials(
+  credentials: CredentialDescriptor[],
+  strategy: CredentialSelection
+): {
+  allowCredentials?: {
+    id: string;
+    transports?: AuthenticatorTransportFuture[];
+  }[];
+  hints?: PublicKeyCredentialHint[];
+} {
+  if (strategy === "discoverable-only") {
+    return {};
+  }
+
+  const isPlatform = (cred: CredentialDescriptor) =>
+    cred.authenticatorAttachment === "platform";
+  const ordered =
+    strategy === "platform-first"
+      ? [
+          ...credentials.filter(isPlatform),
+          ...credentials.filter((cred) => !isPlatform(cred)),
+        ]
+      : credentials;
+
+  const allowCredentials = ordered.map((cred) => ({
+    id: cred.credentialId,
+    transports: cred.transports as AuthenticatorTransportFuture[],
+  }));
+  if (strategy !== "platform-first") {
+    return { allowCredentials };
+  }
+
+  // Hint each kind of authenticator the user has, this device first
+  const transports = new Set(
+    credentials.flatMap((cred) => cred.transports ?? [])
+  );
+  const hints: PublicKeyCredentialHint[] = [];
+  if (credentials.some(isPlatform)) {
+    hints.push("client-device");
+  }
+  if (["usb", "nfc", "ble", "smart-card"].some((t) => transports.has(t))) {
+    hints.push("security-key");
+  }
+  if (transports.has("hybrid")) {
+    hints.push("hybrid");
+  }
+
+  return { allowCredentials, ...(hints.length > 0 && { hints }) };
+}
+
+/**
+ * Add hints and the challenge ID to generated request options
+ */
+function withHints(
+  authenticationOpts: PublicKeyCredentialRequestOptionsJSON,
+  hints: PublicKeyCredentialHint[] | undefined,
+  challengeId: string
+): PublicKeyCredentialRequestOptionsJSON & { challengeId: string } {
+  return {
+    ...authenticationOpts,
+    ...(hints && hints.length > 0 && { hints }),
+    challengeId,
+  };
+}
+
+/**
+ * User verification for a sign-in: the call's requirement, else the server default
+ */
+function resolveUserVerification(
+  options: ServerOptions,
+  authOptions: AuthenticationStartOptions | undefined
+): UserVerificationRequirement {
+  return (
+    authOptions?.userVerification ??
+    options.authentication?.userVerification ??
+    "preferred"
+  );
 }
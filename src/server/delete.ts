@@ -4,41 +4,250 @@ import {
   type ServerOptions,
   type StoredCredential,
 } from "../types/index";
+import { emitEvent } from "./events";
+
+/**
+ * Options for deletePasskey
+ */
+export interface DeletePasskeyOptions {
+  /** Remove the record instead of revoking it (default: false) */
+  permanent?: boolean;
+}
 
 /**
  * Delete a specific passkey credential
+ *
+ * By default the passkey is soft deleted: it is revoked with the reason
+ * "deleted" and kept for auditing, and restorePasskey can undo it. Pass
+ * `permanent: true` to remove the record.
  */
 export async function deletePasskey(
   userId: string,
   credentialId: string,
-  options: ServerOptions
+  options: ServerOptions,
+  deleteOptions?: DeletePasskeyOptions
 ): Promise<void> {
   try {
-    // Find the credential to verify ownership
-    const credential = await options.adapter.findByCredentialId(credentialId);
+    const credential = await findOwnedCredential(userId, credentialId, options);
 
-    if (!credential) {
-      throw new PasskeyError(
-        "Credential not found",
-        ErrorCodes.CREDENTIAL_NOT_FOUND
-      );
+    if (deleteOptions?.permanent) {
+      await options.adapter.deletePasskey(credential.id);
+    } else if (credential.status !== "revoked") {
+      await options.adapter.setPasskeyStatus(credential.id, {
+        status: "revoked",
+        revokedAt: new Date().toISOString(),
+        revokedReason: "deleted",
+      });
+    }
+
+    await emitEvent(options, {
+      type: "passkey_deleted",
+      userId,
+      credentialId,
+      details: { permanent: deleteOptions?.permanent ?? false },
+    });
+  } catch (error) {
+    if (error instanceof PasskeyError) {
+      throw error;
+    }
+    throw new PasskeyError(
+      "Failed to delete passkey",
+      ErrorCodes.STORAGE_ERROR,
+      error
+    );
+  }
+}
+
+/**
+ * Temporarily disable a passkey, e.g. while a lost device is missing
+ * Disabled passkeys are kept in the user's list but cannot authenticate
+ */
+export async function disablePasskey(
+  userId: string,
+  credentialId: string,
+  options: ServerOptions
+): Promise<StoredCredential> {
+  try {
+    const credential = await findOwnedCredential(userId, credentialId, options);
+    assertNotRevoked(credential);
+
+    await options.adapter.setPasskeyStatus(credential.id, {
+      status: "disabled",
+    });
+    await emitEvent(options, {
+      type: "passkey_disabled",
+      userId,
+      credentialId,
+    });
+
+    return { ...credential, status: "disabled" };
+  } catch (error) {
+    if (error instanceof PasskeyError) {
+      throw error;
+    }
+    throw new PasskeyError(
+      "Failed to disable passkey",
+      ErrorCodes.STORAGE_ERROR,
+      error
+    );
+  }
+}
+
+/**
+ * Re-enable a disabled passkey
+ * Also clears the suspected-clone flag, so it lifts a "disable" counter regression policy
+ */
+export async function enablePasskey(
+  userId: string,
+  credentialId: string,
+  options: ServerOptions
+): Promise<StoredCredential> {
+  try {
+    const credential = await findOwnedCredential(userId, credentialId, options);
+    assertNotRevoked(credential);
+
+    await options.adapter.setPasskeyStatus(credential.id, { status: "active" });
+    if (credential.suspectedClone) {
+      await options.adapter.setSuspectedClone(credential.id, false);
+    }
+    await emitEvent(options, { type: "passkey_enabled", userId, credentialId });
+
+    return { ...credential, status: "active", suspectedClone: undefined };
+  } catch (error) {
+    if (error instanceof PasskeyError) {
+      throw error;
     }
+    throw new PasskeyError(
+      "Failed to enable passkey",
+      ErrorCodes.STORAGE_ERROR,
+      error
+    );
+  }
+}
+
+/**
+ * Undo a soft delete, making the passkey active again
+ * Only passkeys removed by deletePasskey can be restored; other revocations are final
+ */
+export async function restorePasskey(
+  userId: string,
+  credentialId: string,
+  options: ServerOptions
+): Promise<StoredCredential> {
+  try {
+    const credential = await findOwnedCredential(userId, credentialId, options);
+    if (credential.status !== "revoked") {
+      return credential;
+    }
+    if (credential.revokedReason !== "deleted") {
+      assertNotRevoked(credential);
+    }
+
+    await options.adapter.setPasskeyStatus(credential.id, { status: "active" });
+    await emitEvent(options, {
+      type: "passkey_restored",
+      userId,
+      credentialId,
+    });
 
-    if (credential.userId !== userId) {
+    return {
+      ...credential,
+      status: "active",
+      revokedAt: undefined,
+      revokedReason: undefined,
+    };
+  } catch (error) {
+    if (error instanceof PasskeyError) {
+      throw error;
+    }
+    throw new PasskeyError(
+      "Failed to restore passkey",
+      ErrorCodes.STORAGE_ERROR,
+      error
+    );
+  }
+}
+
+/**
+ * Permanently revoke a passkey, e.g. after a compromise
+ * Revoked passkeys cannot authenticate or be re-enabled; revoking twice keeps the original details
+ */
+export async function revokePasskey(
+  userId: string,
+  credentialId: string,
+  options: ServerOptions,
+  reason?: string
+): Promise<StoredCredential> {
+  try {
+    const credential = await findOwnedCredential(userId, credentialId, options);
+    if (credential.status === "revoked") {
+      return credential;
+    }
+
+    const revokedAt = new Date().toISOString();
+    await options.adapter.setPasskeyStatus(credential.id, {
+      status: "revoked",
+      revokedAt,
+      revokedReason: reason,
+    });
+    await emitEvent(options, {
+      type: "passkey_revoked",
+      userId,
+      credentialId,
+      ...(reason && { details: { reason } }),
+    });
+
+    return {
+      ...credential,
+      status: "revoked",
+      revokedAt,
+      revokedReason: reason,
+    };
+  } catch (error) {
+    if (error instanceof PasskeyError) {
+      throw error;
+    }
+    throw new PasskeyError(
+      "Failed to revoke passkey",
+      ErrorCodes.STORAGE_ERROR,
+      error
+    );
+  }
+}
+
+/**
+ * Rename a passkey credential
+ * Updates the nickname stored in the credential's device info
+ */
+export async function renamePasskey(
+  userId: string,
+  credentialId: string,
+  nickname: string,
+  options: ServerOptions
+): Promise<StoredCredential> {
+  try {
+    const trimmedNickname = nickname.trim();
+    if (!trimmedNickname || trimmedNickname.length > 64) {
       throw new PasskeyError(
-        "Credential does not belong to user",
-        ErrorCodes.VERIFICATION_FAILED
+        "Nickname must be between 1 and 64 characters",
+        ErrorCodes.INVALID_INPUT
       );
     }
 
-    // Delete the credential
-    await options.adapter.deletePasskey(credential.id);
+    const credential = await findOwnedCredential(userId, credentialId, options);
+
+    await options.adapter.renamePasskey(credential.id, trimmedNickname);
+
+    return {
+      ...credential,
+      deviceInfo: { ...credential.deviceInfo, nickname: trimmedNickname },
+    };
   } catch (error) {
     if (error instanceof PasskeyError) {
       throw error;
     }
     throw new PasskeyError(
-      "Failed to delete passkey",
+      "Failed to rename passkey",
       ErrorCodes.STORAGE_ERROR,
       error
     );
@@ -46,14 +255,27 @@ export async function deletePasskey(
 }
 
 /**
- * List all passkey credentials for a user
+ * Options for listUserPasskeys
+ */
+export interface ListPasskeysOptions {
+  /** Include revoked and soft-deleted passkeys (default: false) */
+  includeRevoked?: boolean;
+}
+
+/**
+ * List a user's passkey credentials
+ * Disabled passkeys are included; revoked ones only with `includeRevoked`
  */
 export async function listUserPasskeys(
   userId: string,
-  options: ServerOptions
+  options: ServerOptions,
+  listOptions?: ListPasskeysOptions
 ): Promise<StoredCredential[]> {
   try {
-    return await options.adapter.listUserPasskeys(userId);
+    const credentials = await options.adapter.listUserPasskeys(userId);
+    return listOptions?.includeRevoked
+      ? credentials
+      : credentials.filter((cred) => cred.status !== "revoked");
   } catch (error) {
     if (error instanceof PasskeyError) {
       throw error;
@@ -65,3 +287,43 @@ export async function listUserPasskeys(
     );
   }
 }
+
+/**
+ * Find a credential and verify that it belongs to the user
+ */
+async function findOwnedCredential(
+  userId: string,
+  credentialId: string,
+  options: ServerOptions
+): Promise<StoredCredential> {
+  const credential = await options.adapter.findByCredentialId(credentialId);
+
+  if (!credential) {
+    throw new PasskeyError(
+      "Credential not found",
+      ErrorCodes.CREDENTIAL_NOT_FOUND
+    );
+  }
+
+  if (credential.userId !== userId) {
+    throw new PasskeyError(
+      "Credential does not belong to user",
+      ErrorCodes.VERIFICATION_FAILED
+    );
+  }
+
+  return credential;
+}
+
+/**
+ * Revocation is final, so revoked passkeys cannot change status again
+ * (soft-deleted passkeys are only brought back through restorePasskey)
+ */
+function assertNotRevoked(credential: StoredCredential): void {
+  if (credential.status === "revoked") {
+    throw new PasskeyError(
+      "This passkey has been revoked",
+      ErrorCodes.CREDENTIAL_REVOKED
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { isoBase64URL } from "@simplewebauthn/server/helpers";
+import type { AntiEnumerationOptions, StoredCredential } from "../types/index";
+
+const encoder = new TextEncoder();
+
+/**
+ * The parts of a credential that startAuthentication sends to the browser
+ */
+export type CredentialDescriptor = Pick<
+  StoredCredential,
+  "credentialId" | "transports" | "authenticatorAttachment"
+>;
+
+/**
+ * Derive stable decoy credentials for a user without active passkeys
+ *
+ * Each decoy is an HMAC of the user ID under the anti-enumeration secret, so
+ * the same user always gets the same credential IDs and they cannot be told
+ * apart from real ones without the secret. The attachment and transports are
+ * derived the same way and mirror what real authenticators report.
+ */
+export async function getDecoyCredentials(
+  userId: string,
+  options: AntiEnumerationOptions
+): Promise<CredentialDescriptor[]> {
+  if (!options.secret || options.secret.length < 32) {
+    throw new Error(
+      "antiEnumeration requires a secret of at least 32 characters."
+    );
+  }
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(options.secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+
+  const count = Math.max(Math.floor(options.decoyCount ?? 1), 1);
+  const decoys: CredentialDescriptor[] = [];
+  for (let index = 0; index < count; index++) {
+    const mac = new Uint8Array(
+      await crypto.subtle.sign(
+        "HMAC",
+        key,
+        encoder.encode(`decoy-credential:${index}:${userId}`)
+      )
+    );
+    const isPlatform = (mac[0] & 1) === 0;
+
+    decoys.push({
+      credentialId: isoBase64URL.fromBuffer(mac),
+      transports: isPlatform ? ["hybrid", "internal"] : ["nfc", "usb"],
+      authenticatorAttachment: isPlatform ? "platform" : "cross-platform",
+    });
+  }
+  return decoys;
+}
@@ -0,0 +1,115 @@
+import {
+  type ClientIpOptions,
+  type ErrorCode,
+  PasskeyError,
+  type PasskeyEvent,
+  type PasskeyEventContext,
+  type SecurityEvent,
+  type ServerOptions,
+} from "../types/index";
+
+/**
+ * Report a security event to `ServerOptions.security.onSecurityEvent`
+ * Callback failures never affect the flow that raised the event
+ */
+export async function emitSecurityEvent(
+  options: ServerOptions,
+  event: SecurityEvent
+): Promise<void> {
+  try {
+    await options.security?.onSecurityEvent?.(event);
+  } catch {
+    // Ignore callback errors
+  }
+}
+
+/**
+ * Report a passkey event to `ServerOptions.onEvent` and the audit log
+ * The timestamp and request context are filled in here; a thrown error
+ * is recorded by its code and message. Failures never affect the flow.
+ */
+export async function emitEvent(
+  options: ServerOptions,
+  event: Omit<PasskeyEvent, "timestamp" | keyof PasskeyEventContext> & {
+    error?: PasskeyError;
+  }
+): Promise<void> {
+  if (!options.onEvent && !options.auditLog) {
+    return;
+  }
+
+  const { error, ...rest } = event;
+  const passkeyEvent: PasskeyEvent = {
+    ...rest,
+    ...(error && {
+      errorCode: error.code as ErrorCode,
+      errorMessage: error.message,
+    }),
+    ...options.eventContext,
+    timestamp: new Date().toISOString(),
+  };
+
+  try {
+    await options.onEvent?.(passkeyEvent);
+  } catch {
+    // Ignore callback errors
+  }
+  try {
+    await options.auditLog?.append(passkeyEvent);
+  } catch {
+    // Ignore audit log errors
+  }
+}
+
+/**
+ * Read the client IP and User-Agent from a request
+ * Forwarding headers are set by whoever sent the request, so the IP is only
+ * read as `clientIp` allows; without it no IP is recorded.
+ */
+export function getEventContext(
+  request: Request,
+  clientIp?: ClientIpOptions
+): PasskeyEventContext {
+  const ip = resolveClientIp(request, clientIp);
+  const userAgent = request.headers.get("user-agent") || undefined;
+
+  return {
+    ...(ip && { ip }),
+    ...(userAgent && { userAgent }),
+  };
+}
+
+function resolveClientIp(
+  request: Request,
+  clientIp: ClientIpOptions | undefined
+): string | undefined {
+  if (clientIp?.resolve) {
+    return clientIp.resolve(request) || undefined;
+  }
+
+  const trustedProxies = clientIp?.trustedProxies ?? 0;
+  if (trustedProxies < 1) {
+    return undefined;
+  }
+
+  // Each proxy appends the address it received the request from, so the
+  // entry added by the outermost trusted proxy is `trustedProxies` from the right
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - trustedProxies] || undefined;
+}
+
+/**
+ * Wrap an unexpected error in a PasskeyError, leaving PasskeyErrors as they are
+ */
+export function toPasskeyError(
+  error: unknown,
+  message: string,
+  code: ErrorCode
+): PasskeyError {
+  return error instanceof PasskeyError
+    ? error
+    : new PasskeyError(message, code, error);
+}
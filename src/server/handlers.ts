@@ -0,0 +1,428 @@
+import type {
+  AuthenticationResponseJSON,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { z } from "zod";
+import {
+  ErrorCodes,
+  ErrorStatusCodes,
+  PasskeyError,
+  type PasskeyHandlerOptions,
+  type PasskeyHandlers,
+  type PasskeyRouteHandler,
+  type ServerOptions,
+} from "../types/index";
+import {
+  finishAuthentication,
+  finishDiscoverableAuthentication,
+  startAuthentication,
+  startDiscoverableAuthentication,
+} from "./authenticate";
+import { deletePasskey, listUserPasskeys, renamePasskey } from "./delete";
+import { getEventContext } from "./events";
+import { requireUserId } from "./identity";
+import { finishRegistration, startRegistration } from "./register";
+import { createSessionCookie } from "./session";
+import { MAX_TIMEOUT_MS } from "./timeout";
+
+const deviceInfoSchema = z.object({
+  deviceType: z.string().optional(),
+  os: z.string().optional(),
+  browser: z.string().optional(),
+  nickname: z.string().optional(),
+});
+
+const timeoutSchema = z
+  .number()
+  .int()
+  .positive()
+  .max(MAX_TIMEOUT_MS)
+  .optional();
+
+const hintsSchema = z
+  .array(z.enum(["client-device", "security-key", "hybrid"]))
+  .optional();
+
+const credentialSchema = z.looseObject({
+  id: z.string().min(1),
+  rawId: z.string().min(1),
+  type: z.literal("public-key"),
+  response: z.looseObject({
+    clientDataJSON: z.string().min(1),
+  }),
+  clientExtensionResults: z.looseObject({}),
+});
+
+const registrationCredentialSchema = credentialSchema.extend({
+  response: z.looseObject({
+    clientDataJSON: z.string().min(1),
+    attestationObject: z.string().min(1),
+  }),
+});
+
+const authenticationCredentialSchema = credentialSchema.extend({
+  response: z.looseObject({
+    clientDataJSON: z.string().min(1),
+    authenticatorData: z.string().min(1),
+    signature: z.string().min(1),
+    userHandle: z.string().optional(),
+  }),
+});
+
+const registerStartSchema = z.object({
+  userName: z.string().optional(),
+  userDisplayName: z.string().optional(),
+  timeout: timeoutSchema,
+  preset: z.enum(["passkey", "security-key"]).optional(),
+  // Only the attachment is up to the client; other requirements come from ServerOptions
+  authenticatorSelection: z
+    .object({
+      authenticatorAttachment: z
+        .enum(["platform", "cross-platform"])
+        .optional(),
+    })
+    .optional(),
+  hints: hintsSchema,
+  deviceInfo: deviceInfoSchema.optional(),
+});
+
+const registerFinishSchema = z.object({
+  challengeId: z.string().min(1),
+  credential: registrationCredentialSchema,
+  userName: z.string().optional(),
+  userDisplayName: z.string().optional(),
+  deviceInfo: deviceInfoSchema.optional(),
+});
+
+const authenticateStartSchema = z.object({
+  userId: z.string().min(1).optional(),
+  timeout: timeoutSchema,
+  // User verification comes from ServerOptions.authentication, never the client
+  hints: hintsSchema,
+});
+
+const authenticateFinishSchema = z.object({
+  userId: z.string().min(1).optional(),
+  challengeId: z.string().min(1),
+  credential: authenticationCredentialSchema,
+  deviceInfo: deviceInfoSchema.optional(),
+});
+
+const deletePasskeySchema = z.object({
+  credentialId: z.string().min(1),
+});
+
+const listPasskeysSchema = z.object({});
+
+const renamePasskeySchema = z.object({
+  credentialId: z.string().min(1),
+  nickname: z.string().trim().min(1).max(64),
+});
+
+/**
+ * Create Next.js App Router handlers for every passkey endpoint
+ *
+ * Registration, listing, renaming and deletion take the user from `ServerOptions.getUserId`
+ * and ignore any `userId` in the request body; only the login endpoints accept one.
+ * Registration policy comes from `handlerOptions.managementOptions` only, never the body.
+ *
+ * @example
+ * ```typescript
+ * // app/api/passkey/[...passkey]/route.ts
+ * export const { POST } = createPasskeyHandlers(serverOptions);
+ * ```
+ */
+export function createPasskeyHandlers(
+  options: ServerOptions | (() => ServerOptions | Promise<ServerOptions>),
+  handlerOptions?: PasskeyHandlerOptions
+): PasskeyHandlers {
+  let warnedClientIp = false;
+  const resolveOptions = async (): Promise<ServerOptions> => {
+    const resolved = typeof options === "function" ? await options() : options;
+    if (resolved.rateLimiter && !resolved.clientIp && !warnedClientIp) {
+      warnedClientIp = true;
+      console.warn(
+        "next-passkey-webauthn: rateLimiter is set without clientIp, so no client IP is known. Usernameless sign-ins share one rate limit bucket and failed sign-ins lock users out from every IP. Configure ServerOptions.clientIp."
+      );
+    }
+    return resolved;
+  };
+
+  const registerStart = createRouteHandler(
+    registerStartSchema,
+    async (body, request, responseHeaders) => {
+      const serverOptions = forRequest(
+        await resolveOptions(),
+        request,
+        responseHeaders
+      );
+      const userId = await requireUserId(request, serverOptions);
+      return startRegistration(userId, serverOptions, {
+        ...body,
+        managementOptions: handlerOptions?.managementOptions,
+      });
+    }
+  );
+
+  const registerFinish = createRouteHandler(
+    registerFinishSchema,
+    async (body, request, responseHeaders) => {
+      const { credential, ...registrationOptions } = body;
+      const serverOptions = forRequest(
+        await resolveOptions(),
+        request,
+        responseHeaders
+      );
+      const userId = await requireUserId(request, serverOptions);
+      return finishRegistration(
+        userId,
+        credential as RegistrationResponseJSON,
+        serverOptions,
+        {
+          ...registrationOptions,
+          managementOptions: handlerOptions?.managementOptions,
+        }
+      );
+    }
+  );
+
+  const authenticateStart = createRouteHandler(
+    authenticateStartSchema,
+    async (body, request, responseHeaders) => {
+      const { userId, ...authOptions } = body;
+      const serverOptions = forRequest(
+        await resolveOptions(),
+        request,
+        responseHeaders
+      );
+      // Without a user ID, fall back to the usernameless flow
+      return userId
+        ? startAuthentication(userId, serverOptions, authOptions)
+        : startDiscoverableAuthentication(serverOptions, authOptions);
+    }
+  );
+
+  const authenticateFinish = createRouteHandler(
+    authenticateFinishSchema,
+    async (body, request, responseHeaders) => {
+      const credential = body.credential as AuthenticationResponseJSON;
+      const serverOptions = forRequest(
+        await resolveOptions(),
+        request,
+        responseHeaders
+      );
+      const finishOptions = { deviceInfo: body.deviceInfo };
+      const { session, ...result } = body.userId
+        ? await finishAuthentication(body.userId, credential, serverOptions, {
+            ...finishOptions,
+            challengeId: body.challengeId,
+          })
+        : await finishDiscoverableAuthentication(
+            body.challengeId,
+            credential,
+            serverOptions,
+            finishOptions
+          );
+
+      if (!session || !serverOptions.session) {
+        return result;
+      }
+
+      // Bearer tokens go in the body; cookie sessions never expose the token
+      if (serverOptions.session.transport === "token") {
+        return { ...result, session };
+      }
+
+      const { token: _token, ...sessionInfo } = session;
+      return Response.json(
+        { ...result, session: sessionInfo },
+        {
+          headers: {
+            "Set-Cookie": createSessionCookie(session, serverOptions.session),
+          },
+        }
+      );
+    }
+  );
+
+  const deletePasskeyHandler = createRouteHandler(
+    deletePasskeySchema,
+    async (body, request, responseHeaders) => {
+      const serverOptions = forRequest(
+        await resolveOptions(),
+        request,
+        responseHeaders
+      );
+      const userId = await requireUserId(request, serverOptions);
+      await deletePasskey(userId, body.credentialId, serverOptions);
+      return { success: true };
+    }
+  );
+
+  const listPasskeys = createRouteHandler(
+    listPasskeysSchema,
+    async (_body, request, responseHeaders) => {
+      const serverOptions = forRequest(
+        await resolveOptions(),
+        request,
+        responseHeaders
+      );
+      const userId = await requireUserId(request, serverOptions);
+      return listUserPasskeys(userId, serverOptions);
+    }
+  );
+
+  const renamePasskeyHandler = createRouteHandler(
+    renamePasskeySchema,
+    async (body, request, responseHeaders) => {
+      const serverOptions = forRequest(
+        await resolveOptions(),
+        request,
+        responseHeaders
+      );
+      const userId = await requireUserId(request, serverOptions);
+      return renamePasskey(
+        userId,
+        body.credentialId,
+        body.nickname,
+        serverOptions
+      );
+    }
+  );
+
+  const routes: Record<string, PasskeyRouteHandler> = {
+    "register/start": registerStart,
+    "register/finish": registerFinish,
+    "authenticate/start": authenticateStart,
+    "authenticate/finish": authenticateFinish,
+    delete: deletePasskeyHandler,
+    list: listPasskeys,
+    rename: renamePasskeyHandler,
+  };
+
+  const POST: PasskeyRouteHandler = async (request) => {
+    const segments = new URL(request.url).pathname.split("/").filter(Boolean);
+    const route =
+      routes[segments.slice(-2).join("/")] ?? routes[segments.slice(-1)[0]];
+
+    if (!route) {
+      return Response.json({ error: "Not found" }, { status: 404 });
+    }
+
+    return route(request);
+  };
+
+  return {
+    registerStart,
+    registerFinish,
+    authenticateStart,
+    authenticateFinish,
+    deletePasskey: deletePasskeyHandler,
+    listPasskeys,
+    renamePasskey: renamePasskeyHandler,
+    POST,
+  };
+}
+
+/**
+ * Scope server options to a request: attach its IP and User-Agent to events, and give
+ * request-scoped challenge stores (e.g. CookieChallengeStore) access to it
+ */
+function forRequest(
+  options: ServerOptions,
+  request: Request,
+  responseHeaders: Headers
+): ServerOptions {
+  return {
+    ...options,
+    eventContext: getEventContext(request, options.clientIp),
+    store: options.store.bind
+      ? options.store.bind({ request, responseHeaders })
+      : options.store,
+  };
+}
+
+/**
+ * Wrap a server call with JSON body validation and error-to-status mapping
+ * Headers the call adds to `responseHeaders` are copied onto the response
+ */
+function createRouteHandler<T>(
+  schema: z.ZodType<T>,
+  handle: (
+    body: T,
+    request: Request,
+    responseHeaders: Headers
+  ) => Promise<unknown>
+): PasskeyRouteHandler {
+  return async (request) => {
+    const responseHeaders = new Headers();
+
+    try {
+      let payload: unknown;
+      try {
+        payload = await request.json();
+      } catch {
+        throw new PasskeyError(
+          "Request body must be valid JSON",
+          ErrorCodes.INVALID_INPUT
+        );
+      }
+
+      const parsed = schema.safeParse(payload);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        const path = issue.path.join(".");
+        throw new PasskeyError(
+          path ? `Invalid ${path}: ${issue.message}` : issue.message,
+          ErrorCodes.INVALID_INPUT,
+          parsed.error.issues
+        );
+      }
+
+      const result = await handle(parsed.data, request, responseHeaders);
+      return withHeaders(
+        result instanceof Response ? result : Response.json(result),
+        responseHeaders
+      );
+    } catch (error) {
+      // Still apply headers, e.g. to clear a consumed challenge cookie
+      return withHeaders(toErrorResponse(error), responseHeaders);
+    }
+  };
+}
+
+function withHeaders(response: Response, headers: Headers): Response {
+  headers.forEach((value, key) => response.headers.append(key, value));
+  return response;
+}
+
+/**
+ * Convert a thrown error into a JSON error response
+ */
+function toErrorResponse(error: unknown): Response {
+  if (error instanceof PasskeyError) {
+    const status =
+      ErrorStatusCodes[error.code as keyof typeof ErrorStatusCodes] ?? 400;
+
+    if (error.code === ErrorCodes.RATE_LIMITED) {
+      const { retryAfter } = error.details as { retryAfter?: number };
+      return Response.json(
+        { error: error.message, code: error.code, retryAfter },
+        {
+          status,
+          headers: retryAfter ? { "Retry-After": String(retryAfter) } : {},
+        }
+      );
+    }
+
+    return Response.json(
+      { error: error.message, code: error.code },
+      { status }
+    );
+  }
+
+  return Response.json(
+    { error: "Internal server error", code: ErrorCodes.STORAGE_ERROR },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,37 @@
+import { ErrorCodes, PasskeyError, type ServerOptions } from "../types/index";
+import { getSession } from "./session";
+
+/**
+ * Resolve the signed-in user's ID for a request via `ServerOptions.getUserId`,
+ * falling back to the passkey session when `ServerOptions.session` is configured
+ * Throws UNAUTHORIZED when no resolver is configured or the request has no session
+ */
+export async function requireUserId(
+  request: Request,
+  options: ServerOptions
+): Promise<string> {
+  if (!options.getUserId && options.session) {
+    const session = await getSession(request, options);
+    if (!session) {
+      throw new PasskeyError(
+        "Authentication required",
+        ErrorCodes.UNAUTHORIZED
+      );
+    }
+    return session.userId;
+  }
+
+  if (!options.getUserId) {
+    throw new PasskeyError(
+      "ServerOptions.getUserId or ServerOptions.session must be configured to identify the signed-in user",
+      ErrorCodes.UNAUTHORIZED
+    );
+  }
+
+  const userId = await options.getUserId(request);
+  if (!userId) {
+    throw new PasskeyError("Authentication required", ErrorCodes.UNAUTHORIZED);
+  }
+
+  return userId;
+}
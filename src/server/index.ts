@@ -3,5 +3,29 @@
  */
 
 export { startRegistration, finishRegistration } from "./register";
-export { startAuthentication, finishAuthentication } from "./authenticate";
-export { deletePasskey, listUserPasskeys } from "./delete";
+export {
+  startAuthentication,
+  finishAuthentication,
+  startDiscoverableAuthentication,
+  finishDiscoverableAuthentication,
+} from "./authenticate";
+export {
+  deletePasskey,
+  disablePasskey,
+  enablePasskey,
+  restorePasskey,
+  revokePasskey,
+  listUserPasskeys,
+  renamePasskey,
+} from "./delete";
+export type { DeletePasskeyOptions, ListPasskeysOptions } from "./delete";
+export { createPasskeyHandlers } from "./handlers";
+export { getEventContext } from "./events";
+export { requireUserId } from "./identity";
+export { loadMetadataBlob, parseMetadataBlob } from "./policy";
+export {
+  HmacSessionIssuer,
+  getSession,
+  destroySession,
+  createSessionCookie,
+} from "./session";
@@ -0,0 +1,245 @@
+import {
+  type AuthenticatorStatus,
+  SettingsService,
+} from "@simplewebauthn/server";
+import {
+  convertCertBufferToPEM,
+  decodeAttestationObject,
+  isoBase64URL,
+  validateCertificatePath,
+} from "@simplewebauthn/server/helpers";
+import {
+  type AuthenticatorMetadataEntry,
+  type CertificationLevel,
+  ErrorCodes,
+  PasskeyError,
+  type RegistrationPolicy,
+} from "../types/index";
+
+const CERTIFICATION_LEVELS: CertificationLevel[] = [
+  "FIDO_CERTIFIED_L1",
+  "FIDO_CERTIFIED_L1plus",
+  "FIDO_CERTIFIED_L2",
+  "FIDO_CERTIFIED_L2plus",
+  "FIDO_CERTIFIED_L3",
+  "FIDO_CERTIFIED_L3plus",
+];
+
+/**
+ * Statuses that mean an authenticator model must no longer be trusted
+ */
+const COMPROMISED_STATUSES: AuthenticatorStatus[] = [
+  "REVOKED",
+  "ATTESTATION_KEY_COMPROMISE",
+  "USER_KEY_REMOTE_COMPROMISE",
+  "USER_KEY_PHYSICAL_COMPROMISE",
+  "USER_VERIFICATION_BYPASS",
+];
+
+/**
+ * Verify a FIDO MDS3 BLOB and read its entries
+ * The BLOB is the JWT served by mds3.fidoalliance.org. Its x5c chain must end at one of
+ * `rootCertificates` (default: the FIDO Alliance's GlobalSign Root CA - R3) and its
+ * signature must verify against the leaf certificate.
+ */
+export async function parseMetadataBlob(
+  blob: string,
+  rootCertificates = SettingsService.getRootCertificates({ identifier: "mds" })
+): Promise<AuthenticatorMetadataEntry[]> {
+  const [header, payload, signature] = blob.trim().split(".");
+  if (!header || !payload || !signature) {
+    throw new Error("Metadata BLOB is not a JWT.");
+  }
+
+  const { alg, x5c } = JSON.parse(isoBase64URL.toUTF8String(header));
+  if (!Array.isArray(x5c) || x5c.length === 0) {
+    throw new Error("Metadata BLOB has no certificate chain.");
+  }
+
+  const chain: string[] = x5c.map((certificate: string) =>
+    convertCertBufferToPEM(certificate)
+  );
+  try {
+    await validateCertificatePath(chain, rootCertificates);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Metadata BLOB certificate chain is not trusted: ${reason}`
+    );
+  }
+
+  const verified = await verifyBlobSignature(
+    alg,
+    chain[0],
+    `${header}.${payload}`,
+    isoBase64URL.toBuffer(signature)
+  );
+  if (!verified) {
+    throw new Error("Metadata BLOB signature is invalid.");
+  }
+
+  const { entries } = JSON.parse(isoBase64URL.toUTF8String(payload));
+  if (!Array.isArray(entries)) {
+    throw new Error("Metadata BLOB has no entries.");
+  }
+
+  return entries;
+}
+
+/**
+ * Load and verify a FIDO MDS3 BLOB from a local file
+ */
+export async function loadMetadataBlob(
+  path: string,
+  rootCertificates?: string[]
+): Promise<AuthenticatorMetadataEntry[]> {
+  const { readFile } = await import("node:fs/promises");
+  return parseMetadataBlob(await readFile(path, "utf-8"), rootCertificates);
+}
+
+/**
+ * Verify a JWS signature (RS* or ES*) with the public key of a PEM certificate
+ */
+async function verifyBlobSignature(
+  alg: unknown,
+  certificate: string,
+  signingInput: string,
+  signature: Uint8Array
+): Promise<boolean> {
+  const match = typeof alg === "string" && /^(RS|ES)(256|384|512)$/.exec(alg);
+  if (!match) {
+    throw new Error(`Metadata BLOB algorithm ${String(alg)} is not supported.`);
+  }
+
+  const { X509Certificate, verify } = await import("node:crypto");
+  const key = new X509Certificate(certificate).publicKey;
+
+  return verify(
+    `sha${match[2]}`,
+    new TextEncoder().encode(signingInput),
+    // JWS carries ECDSA signatures as raw r || s
+    match[1] === "ES" ? { key, dsaEncoding: "ieee-p1363" } : key,
+    signature
+  );
+}
+
+/**
+ * Whether a policy needs a verified attestation
+ * An AAGUID is only trustworthy when the attestation that carries it chains to a trusted root
+ */
+export function requiresAttestation(
+  policy: RegistrationPolicy | undefined
+): boolean {
+  return Boolean(
+    policy?.requireAttestation ||
+      (policy?.allowedAaguids && policy.allowedAaguids.length > 0) ||
+      policy?.minimumCertificationLevel
+  );
+}
+
+/**
+ * Check a verified registration against the configured policy
+ * Throws AUTHENTICATOR_NOT_ALLOWED on any violation
+ */
+export async function evaluateRegistrationPolicy(
+  policy: RegistrationPolicy,
+  registration: {
+    aaguid: string;
+    fmt: string;
+    attestationObject: Uint8Array;
+  }
+): Promise<void> {
+  const aaguid = registration.aaguid.toLowerCase();
+  const normalize = (list?: string[]) =>
+    list?.map((value) => value.toLowerCase());
+
+  if (normalize(policy.deniedAaguids)?.includes(aaguid)) {
+    throw notAllowed(`Authenticator ${aaguid} is not allowed`);
+  }
+
+  const allowed = normalize(policy.allowedAaguids);
+  if (allowed && allowed.length > 0 && !allowed.includes(aaguid)) {
+    throw notAllowed(`Authenticator ${aaguid} is not on the allowlist`);
+  }
+
+  const entry = policy.metadata?.find(
+    (candidate) => candidate.aaguid?.toLowerCase() === aaguid
+  );
+  const statuses = entry?.statusReports.map((report) => report.status) ?? [];
+
+  if (statuses.some((status) => COMPROMISED_STATUSES.includes(status))) {
+    throw notAllowed(`Authenticator ${aaguid} has been reported compromised`);
+  }
+
+  if (policy.minimumCertificationLevel) {
+    const required = CERTIFICATION_LEVELS.indexOf(
+      policy.minimumCertificationLevel
+    );
+    const achieved = Math.max(
+      ...statuses.map((status) =>
+        CERTIFICATION_LEVELS.indexOf(status as CertificationLevel)
+      ),
+      -1
+    );
+
+    if (achieved < required) {
+      throw notAllowed(
+        `Authenticator ${aaguid} does not meet certification level ${policy.minimumCertificationLevel}`
+      );
+    }
+  }
+
+  if (requiresAttestation(policy)) {
+    await verifyTrustedAttestation(
+      policy,
+      entry,
+      registration.attestationObject
+    );
+  }
+}
+
+/**
+ * Ensure the attestation certificate chain ends at a trusted root
+ */
+async function verifyTrustedAttestation(
+  policy: RegistrationPolicy,
+  entry: AuthenticatorMetadataEntry | undefined,
+  attestationObject: Uint8Array
+): Promise<void> {
+  const x5c = decodeAttestationObject(attestationObject)
+    .get("attStmt")
+    .get("x5c");
+
+  // "none" and self attestation carry no certificate chain
+  if (!x5c || x5c.length === 0) {
+    throw notAllowed("Authenticator did not provide a certificate attestation");
+  }
+
+  const trustAnchors = [
+    ...(policy.trustedRootCertificates ?? []),
+    ...(entry?.metadataStatement?.attestationRootCertificates ?? []).map(
+      (certificate) => convertCertBufferToPEM(certificate)
+    ),
+  ];
+
+  if (trustAnchors.length === 0) {
+    throw notAllowed("No trusted root certificates for this authenticator");
+  }
+
+  try {
+    await validateCertificatePath(
+      x5c.map((certificate) => convertCertBufferToPEM(certificate)),
+      trustAnchors
+    );
+  } catch (error) {
+    throw new PasskeyError(
+      "Attestation does not chain to a trusted root certificate",
+      ErrorCodes.AUTHENTICATOR_NOT_ALLOWED,
+      error
+    );
+  }
+}
+
+function notAllowed(message: string): PasskeyError {
+  return new PasskeyError(message, ErrorCodes.AUTHENTICATOR_NOT_ALLOWED);
+}
@@ -0,0 +1,60 @@
+import {
+  ErrorCodes,
+  PasskeyError,
+  type RateLimitSubject,
+  type ServerOptions,
+} from "../types/index";
+
+/**
+ * Count a ceremony attempt against `ServerOptions.rateLimiter`
+ * Throws RATE_LIMITED, with `details.retryAfter` in seconds, when the user or IP is over its limit
+ */
+export async function enforceRateLimit(
+  options: ServerOptions,
+  userId?: string
+): Promise<void> {
+  if (!options.rateLimiter) {
+    return;
+  }
+
+  const result = await options.rateLimiter.limit(getSubject(options, userId));
+  if (!result.allowed) {
+    throw new PasskeyError(
+      "Too many attempts. Please try again later.",
+      ErrorCodes.RATE_LIMITED,
+      { retryAfter: result.retryAfter }
+    );
+  }
+}
+
+/**
+ * Feed an authentication result into the lockout
+ * Only VERIFICATION_FAILED counts as a failure; limiter errors never mask the result
+ */
+export async function recordAuthenticationResult(
+  options: ServerOptions,
+  userId: string | undefined,
+  error?: PasskeyError
+): Promise<void> {
+  if (!options.rateLimiter) {
+    return;
+  }
+
+  const subject = getSubject(options, userId);
+  try {
+    if (!error) {
+      await options.rateLimiter.recordSuccess(subject);
+    } else if (error.code === ErrorCodes.VERIFICATION_FAILED) {
+      await options.rateLimiter.recordFailure(subject);
+    }
+  } catch {
+    // Ignore limiter errors
+  }
+}
+
+function getSubject(
+  options: ServerOptions,
+  userId: string | undefined
+): RateLimitSubject {
+  return { userId, ip: options.eventContext?.ip };
+}
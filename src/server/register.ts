@@ -5,18 +5,59 @@ import {
   generateRegistrationOptions,
   verifyRegistrationResponse,
 } from "@simplewebauthn/server";
+import { isoBase64URL, isoUint8Array } from "@simplewebauthn/server/helpers";
 import {
   type AuthenticatorAttachment,
+  type AuthenticatorSelectionOptions,
   type ChallengeRecord,
   ErrorCodes,
   type Flow,
   PasskeyError,
   type PasskeyDeviceInfo,
   type PasskeyManagementOptions,
+  type PublicKeyCredentialHint,
+  type RegistrationDefaults,
+  type RegistrationFinishOptions,
+  type RegistrationPreset,
   type RegistrationStartOptions,
   type ServerOptions,
   type StoredCredential,
+  type UserVerificationRequirement,
 } from "../types/index";
+import { getAuthenticatorInfo } from "../utils/aaguid";
+import { emitEvent, toPasskeyError } from "./events";
+import { evaluateRegistrationPolicy, requiresAttestation } from "./policy";
+import { enforceRateLimit } from "./rate-limit";
+import { resolveTimeout } from "./timeout";
+
+/**
+ * Authenticator selection and hints for each registration preset
+ */
+const REGISTRATION_PRESETS: Record<
+  RegistrationPreset,
+  {
+    authenticatorSelection: AuthenticatorSelectionOptions;
+    hints?: PublicKeyCredentialHint[];
+  }
+> = {
+  passkey: {
+    authenticatorSelection: {
+      residentKey: "preferred",
+      userVerification: "preferred",
+    },
+  },
+  "security-key": {
+    authenticatorSelection: {
+      authenticatorAttachment: "cross-platform",
+      residentKey: "discouraged",
+      userVerification: "preferred",
+    },
+    hints: ["security-key"],
+  },
+};
+
+// EdDSA, ES256, RS256
+const DEFAULT_ALGORITHM_IDS = [-8, -7, -257];
 
 /**
  * Start passkey registration flow
@@ -28,10 +69,15 @@ export async function startRegistration(
     deviceInfo?: PasskeyDeviceInfo;
     managementOptions?: PasskeyManagementOptions;
   }
-): Promise<PublicKeyCredentialCreationOptionsJSON> {
+): Promise<PublicKeyCredentialCreationOptionsJSON & { challengeId: string }> {
   try {
+    await enforceRateLimit(options, userId);
+
     // Get existing credentials to exclude from registration
-    const existingCredentials = await options.adapter.listUserPasskeys(userId);
+    // Revoked passkeys no longer count, so their authenticators can be registered again
+    const existingCredentials = (
+      await options.adapter.listUserPasskeys(userId)
+    ).filter((cred) => cred.status !== "revoked");
 
     // Check management constraints
     const managementOptions = registrationOptions?.managementOptions;
@@ -51,47 +97,68 @@ export async function startRegistration(
       transports: cred.transports as AuthenticatorTransportFuture[],
     }));
 
+    const { authenticatorSelection, supportedAlgorithmIDs, hints } =
+      resolveRegistrationDefaults(options, registrationOptions);
+    const timeout = resolveTimeout(registrationOptions?.timeout);
+    const userVerification: UserVerificationRequirement =
+      managementOptions?.requireUserVerification
+        ? "required"
+        : authenticatorSelection.userVerification ?? "preferred";
+
     // Generate registration options
+    // A policy that checks attestation or AAGUIDs needs the authenticator's certificate chain
+    const attestation = requiresAttestation(options.registrationPolicy)
+      ? "direct"
+      : options.attestation ?? "none";
     const registrationOpts = await generateRegistrationOptions({
       rpName: options.rpConfig.rpName,
       rpID: options.rpConfig.rpID,
-      userID: Buffer.from(userId, "utf-8"),
+      userID: isoUint8Array.fromUTF8String(userId),
       userName: registrationOptions?.userName || userId,
       userDisplayName: registrationOptions?.userDisplayName || userId,
-      timeout: registrationOptions?.timeout || 1000 * 60 * 5, // 5 minutes
-      attestationType: "none",
+      timeout,
+      attestationType: attestation === "direct" ? "direct" : "none",
       excludeCredentials: excludeCredentials,
-      authenticatorSelection: {
-        residentKey: "preferred",
-        userVerification: "preferred",
-        authenticatorAttachment: "platform",
-      },
-      supportedAlgorithmIDs: [-7, -257], // ES256, RS256
+      authenticatorSelection: { ...authenticatorSelection, userVerification },
+      supportedAlgorithmIDs,
     });
+    // generateRegistrationOptions has no "indirect" type, so set the preference directly
+    registrationOpts.attestation = attestation;
+    // Its hint option also forces an attachment, so hints are set directly too
+    if (hints && hints.length > 0) {
+      registrationOpts.hints = hints;
+    }
 
-    // Store challenge
-    const expiresAt =
-      Date.now() + (registrationOptions?.timeout || 1000 * 60 * 5); // 5 minutes
+    // Store challenge under a random ID so concurrent ceremonies don't collide
+    const challengeId = crypto.randomUUID();
+    const expiresAt = Date.now() + timeout;
     const challengeRecord: ChallengeRecord = {
-      id: `${userId}:registration`,
+      id: challengeId,
       userId,
       flow: "registration" as Flow,
       challenge: registrationOpts.challenge,
       expiresAt,
+      userVerification,
+      supportedAlgorithmIDs,
     };
 
     await options.store.set(challengeRecord);
 
-    return registrationOpts;
+    await emitEvent(options, { type: "registration_started", userId });
+
+    return { ...registrationOpts, challengeId };
   } catch (error) {
-    if (error instanceof PasskeyError) {
-      throw error;
-    }
-    throw new PasskeyError(
+    const passkeyError = toPasskeyError(
+      error,
       "Failed to start registration",
-      ErrorCodes.STORAGE_ERROR,
-      error
+      ErrorCodes.STORAGE_ERROR
     );
+    await emitEvent(options, {
+      type: "registration_failed",
+      userId,
+      error: passkeyError,
+    });
+    throw passkeyError;
   }
 }
 
@@ -102,15 +169,21 @@ export async function finishRegistration(
   userId: string,
   credential: RegistrationResponseJSON,
   options: ServerOptions,
-  registrationOptions?: RegistrationStartOptions & {
-    deviceInfo?: PasskeyDeviceInfo;
-    managementOptions?: PasskeyManagementOptions;
-  }
+  registrationOptions: RegistrationFinishOptions
 ): Promise<{ verified: boolean; credential?: StoredCredential }> {
   try {
-    // Retrieve challenge
-    const challengeRecord = await options.store.get(userId, "registration");
-    if (!challengeRecord) {
+    await enforceRateLimit(options, userId);
+
+    // Consume the challenge up front so it can only ever be used once
+    const challengeRecord = await options.store.consume(
+      registrationOptions.challengeId
+    );
+    // A challenge issued to another user or flow is treated as missing
+    if (
+      !challengeRecord ||
+      challengeRecord.userId !== userId ||
+      challengeRecord.flow !== "registration"
+    ) {
       throw new PasskeyError(
         "Challenge not found or expired",
         ErrorCodes.CHALLENGE_NOT_FOUND
@@ -119,7 +192,6 @@ export async function finishRegistration(
 
     // Check if challenge is expired
     if (Date.now() > challengeRecord.expiresAt) {
-      await options.store.delete(userId, "registration");
       throw new PasskeyError("Challenge expired", ErrorCodes.CHALLENGE_EXPIRED);
     }
 
@@ -130,11 +202,14 @@ export async function finishRegistration(
       expectedOrigin: options.rpConfig.expectedOrigin,
       expectedRPID: options.rpConfig.rpID,
       requireUserVerification: false,
+      // Verify against the algorithms offered at start; challenges stored
+      // before they were recorded fall back to the current defaults
+      supportedAlgorithmIDs:
+        challengeRecord.supportedAlgorithmIDs ??
+        resolveRegistrationDefaults(options, registrationOptions)
+          .supportedAlgorithmIDs,
     });
 
-    // Clean up challenge immediately after verification
-    await options.store.delete(userId, "registration");
-
     if (!verification.verified || !verification.registrationInfo) {
       throw new PasskeyError(
         "Registration verification failed",
@@ -143,6 +218,17 @@ export async function finishRegistration(
       );
     }
 
+    // Enforce the user verification requested when the challenge was issued
+    if (
+      challengeRecord.userVerification === "required" &&
+      !verification.registrationInfo.userVerified
+    ) {
+      throw new PasskeyError(
+        "User verification is required to register a passkey",
+        ErrorCodes.USER_VERIFICATION_REQUIRED
+      );
+    }
+
     // Extract credential information
     const {
       credential: {
@@ -153,8 +239,20 @@ export async function finishRegistration(
       },
       credentialBackedUp,
       credentialDeviceType,
+      aaguid,
+      fmt,
+      attestationObject,
     } = verification.registrationInfo;
 
+    // Enforce the authenticator policy before anything is stored
+    if (options.registrationPolicy) {
+      await evaluateRegistrationPolicy(options.registrationPolicy, {
+        aaguid,
+        fmt,
+        attestationObject,
+      });
+    }
+
     // Check if credential already exists
     const existingCredential = await options.adapter.findByCredentialId(
       credentialId
@@ -169,14 +267,21 @@ export async function finishRegistration(
     // Determine authenticator attachment using multiple signals
     let authenticatorAttachment: AuthenticatorAttachment;
 
+    // Method 0: Look up the provider by AAGUID
+    const authenticatorInfo = getAuthenticatorInfo(aaguid);
+
     // Method 1: Check transports for "internal" (platform authenticators)
+    // or a roaming transport (security keys)
     const hasInternalTransport = transports?.includes("internal");
+    const hasRoamingTransport = transports?.some((transport) =>
+      ["usb", "nfc", "ble", "smart-card"].includes(transport)
+    );
 
     // Method 2: Check device type
     const isSingleDevice = credentialDeviceType === "singleDevice";
 
     // Method 3: Check device info for known platform devices
-    const deviceInfo = registrationOptions?.deviceInfo;
+    const deviceInfo = registrationOptions.deviceInfo;
     const isPlatformDevice =
       deviceInfo &&
       ((deviceInfo.os === "macOS" && deviceInfo.deviceType === "Mac") ||
@@ -187,8 +292,19 @@ export async function finishRegistration(
         (deviceInfo.os === "Windows" &&
           deviceInfo.deviceType === "Windows PC"));
 
-    // Determine attachment (prioritize transport, then device type, then device info)
-    if (hasInternalTransport || isSingleDevice || isPlatformDevice) {
+    // Determine attachment (prioritize the browser's report, then AAGUID, transport, device type and device info)
+    if (credential.authenticatorAttachment) {
+      authenticatorAttachment = credential.authenticatorAttachment;
+    } else if (authenticatorInfo) {
+      authenticatorAttachment =
+        authenticatorInfo.kind === "security-key"
+          ? "cross-platform"
+          : "platform";
+    } else if (hasInternalTransport) {
+      authenticatorAttachment = "platform";
+    } else if (hasRoamingTransport) {
+      authenticatorAttachment = "cross-platform";
+    } else if (isSingleDevice || isPlatformDevice) {
       authenticatorAttachment = "platform";
     } else {
       authenticatorAttachment = "cross-platform";
@@ -197,13 +313,13 @@ export async function finishRegistration(
     // Check for duplicate authenticators
     // Default: prevent duplicates for platform authenticators, allow for cross-platform
     const shouldPreventDuplicates =
-      registrationOptions?.managementOptions?.preventDuplicateAuthenticators !==
+      registrationOptions.managementOptions?.preventDuplicateAuthenticators !==
         false && authenticatorAttachment === "platform";
 
     if (shouldPreventDuplicates) {
-      const existingCredentials = await options.adapter.listUserPasskeys(
-        userId
-      );
+      const existingCredentials = (
+        await options.adapter.listUserPasskeys(userId)
+      ).filter((cred) => cred.status !== "revoked");
 
       const isDuplicate = existingCredentials.some((existing) => {
         // For platform authenticators, check if same device type and OS
@@ -211,8 +327,17 @@ export async function finishRegistration(
           existing.authenticatorAttachment === "platform" &&
           authenticatorAttachment === "platform"
         ) {
+          // Different known providers are never the same authenticator
+          if (
+            getAuthenticatorInfo(existing.aaguid) &&
+            authenticatorInfo &&
+            existing.aaguid !== aaguid
+          ) {
+            return false;
+          }
+
           // If we have device info for both, compare them
-          if (existing.deviceInfo && registrationOptions?.deviceInfo) {
+          if (existing.deviceInfo && registrationOptions.deviceInfo) {
             return (
               existing.deviceInfo.deviceType ===
                 registrationOptions.deviceInfo.deviceType &&
@@ -230,7 +355,7 @@ export async function finishRegistration(
 
       if (isDuplicate) {
         const deviceName =
-          registrationOptions?.deviceInfo?.deviceType || "this device";
+          registrationOptions.deviceInfo?.deviceType || "this device";
         throw new PasskeyError(
           `You already have a passkey on ${deviceName}. Each device can only have one passkey.`,
           ErrorCodes.INVALID_INPUT
@@ -242,15 +367,23 @@ export async function finishRegistration(
     const storedCredential = await options.adapter.createPasskey({
       userId,
       credentialId,
-      publicKey: Buffer.from(credentialPublicKey).toString("base64url"),
+      publicKey: isoBase64URL.fromBuffer(credentialPublicKey),
       counter,
       transports,
-      userName: registrationOptions?.userName,
-      userDisplayName: registrationOptions?.userDisplayName,
+      userName: registrationOptions.userName,
+      userDisplayName: registrationOptions.userDisplayName,
       authenticatorAttachment,
-      deviceInfo: registrationOptions?.deviceInfo,
+      deviceInfo: registrationOptions.deviceInfo,
       backupEligible: credentialBackedUp,
       backupState: credentialBackedUp,
+      aaguid,
+      attestationFormat: fmt,
+    });
+
+    await emitEvent(options, {
+      type: "registration_succeeded",
+      userId,
+      credentialId,
     });
 
     return {
@@ -258,19 +391,49 @@ export async function finishRegistration(
       credential: storedCredential,
     };
   } catch (error) {
-    // Clean up challenge on any error
-    try {
-      await options.store.delete(userId, "registration");
-    } catch {
-      // Ignore cleanup errors
-    }
-    if (error instanceof PasskeyError) {
-      throw error;
-    }
-    throw new PasskeyError(
+    const passkeyError = toPasskeyError(
+      error,
       "Failed to finish registration",
-      ErrorCodes.VERIFICATION_FAILED,
-      error
+      ErrorCodes.VERIFICATION_FAILED
     );
+    await emitEvent(options, {
+      type: "registration_failed",
+      userId,
+      credentialId: credential.id,
+      error: passkeyError,
+    });
+    throw passkeyError;
   }
 }
+
+/**
+ * Merge registration defaults: the preset, then `ServerOptions.registration`,
+ * then the per-call options, each overriding the fields it sets
+ */
+function resolveRegistrationDefaults(
+  options: ServerOptions,
+  registrationOptions?: RegistrationDefaults
+): {
+  authenticatorSelection: AuthenticatorSelectionOptions;
+  supportedAlgorithmIDs: number[];
+  hints?: PublicKeyCredentialHint[];
+} {
+  const defaults = options.registration;
+  const preset =
+    REGISTRATION_PRESETS[
+      registrationOptions?.preset ?? defaults?.preset ?? "passkey"
+    ];
+
+  return {
+    authenticatorSelection: {
+      ...preset.authenticatorSelection,
+      ...defaults?.authenticatorSelection,
+      ...registrationOptions?.authenticatorSelection,
+    },
+    supportedAlgorithmIDs:
+      registrationOptions?.supportedAlgorithmIDs ??
+      defaults?.supportedAlgorithmIDs ??
+      DEFAULT_ALGORITHM_IDS,
+    hints: registrationOptions?.hints ?? defaults?.hints ?? preset.hints,
+  };
+}
@@ -0,0 +1,232 @@
+import { isoBase64URL } from "@simplewebauthn/server/helpers";
+import type {
+  IssuedSession,
+  PasskeySession,
+  ServerOptions,
+  SessionIssuer,
+  SessionOptions,
+} from "../types/index";
+import { readCookie, serializeCookie } from "../utils/cookies";
+
+const DEFAULT_COOKIE_NAME = "passkey_session";
+const DEFAULT_MAX_AGE = 60 * 60 * 24 * 7; // 7 days
+
+const encoder = new TextEncoder();
+
+/**
+ * HMAC-signed session issuer
+ * Issues compact HS256 JWTs, so tokens can be verified by any JWT library sharing the secret
+ * Uses Web Crypto, so it runs on both Node.js and Edge runtimes
+ */
+export class HmacSessionIssuer implements SessionIssuer {
+  private key?: Promise<CryptoKey>;
+
+  constructor(
+    /** Signing secret (at least 32 characters) */
+    private readonly secret: string
+  ) {
+    if (!secret || secret.length < 32) {
+      throw new Error(
+        "HmacSessionIssuer requires a secret of at least 32 characters."
+      );
+    }
+  }
+
+  async issue(session: PasskeySession): Promise<string> {
+    const header = encodeSegment({ alg: "HS256", typ: "JWT" });
+    const payload = encodeSegment({
+      sub: session.userId,
+      cid: session.credentialId,
+      auth_time: Math.floor(session.authenticatedAt / 1000),
+      iat: Math.floor(Date.now() / 1000),
+      exp: Math.floor(session.expiresAt / 1000),
+    });
+
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      await this.getKey(),
+      encoder.encode(`${header}.${payload}`)
+    );
+
+    return `${header}.${payload}.${isoBase64URL.fromBuffer(
+      new Uint8Array(signature)
+    )}`;
+  }
+
+  async verify(token: string): Promise<PasskeySession | null> {
+    const [header, payload, signature, ...rest] = token.split(".");
+    if (!header || !payload || !signature || rest.length > 0) {
+      return null;
+    }
+
+    try {
+      // crypto.subtle.verify compares signatures in constant time
+      const valid =
+        isoBase64URL.isBase64URL(signature) &&
+        (await crypto.subtle.verify(
+          "HMAC",
+          await this.getKey(),
+          isoBase64URL.toBuffer(signature) as Uint8Array<ArrayBuffer>,
+          encoder.encode(`${header}.${payload}`)
+        ));
+      if (!valid) {
+        return null;
+      }
+
+      const { alg } = JSON.parse(isoBase64URL.toUTF8String(header));
+      const claims = JSON.parse(isoBase64URL.toUTF8String(payload));
+
+      // A token without a numeric expiry would never expire
+      if (
+        alg !== "HS256" ||
+        typeof claims.sub !== "string" ||
+        typeof claims.exp !== "number" ||
+        !Number.isFinite(claims.exp)
+      ) {
+        return null;
+      }
+
+      const expiresAt = claims.exp * 1000;
+      if (Date.now() > expiresAt) {
+        return null;
+      }
+
+      return {
+        userId: claims.sub,
+        credentialId: claims.cid,
+        authenticatedAt: claims.auth_time * 1000,
+        expiresAt,
+      };
+    } catch {
+      // Malformed token
+      return null;
+    }
+  }
+
+  private getKey(): Promise<CryptoKey> {
+    this.key ??= crypto.subtle.importKey(
+      "raw",
+      encoder.encode(this.secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign", "verify"]
+    );
+    return this.key;
+  }
+}
+
+/**
+ * Issue a session for a verified credential, if a session subsystem is configured
+ */
+export async function issueSession(
+  userId: string,
+  credentialId: string,
+  options: ServerOptions
+): Promise<IssuedSession | undefined> {
+  if (!options.session) {
+    return undefined;
+  }
+
+  const authenticatedAt = Date.now();
+  const session: PasskeySession = {
+    userId,
+    credentialId,
+    authenticatedAt,
+    expiresAt:
+      authenticatedAt + (options.session.maxAge ?? DEFAULT_MAX_AGE) * 1000,
+  };
+
+  const token = await options.session.issuer.issue(session);
+  return { ...session, token };
+}
+
+/**
+ * Read and verify the session for a request
+ * Looks for the session cookie first, then an `Authorization: Bearer` header
+ */
+export async function getSession(
+  request: Request,
+  options: ServerOptions
+): Promise<PasskeySession | null> {
+  if (!options.session) {
+    return null;
+  }
+
+  const token = getSessionToken(request, options.session);
+  if (!token) {
+    return null;
+  }
+
+  return options.session.issuer.verify(token);
+}
+
+/**
+ * Revoke the request's session and return a Set-Cookie header value that clears it
+ */
+export async function destroySession(
+  request: Request,
+  options: ServerOptions
+): Promise<string> {
+  if (!options.session) {
+    throw new Error("ServerOptions.session is not configured.");
+  }
+
+  const token = getSessionToken(request, options.session);
+  if (token && options.session.issuer.revoke) {
+    await options.session.issuer.revoke(token);
+  }
+
+  return serializeSessionCookie(options.session, "", 0);
+}
+
+/**
+ * Build the Set-Cookie header value for an issued session
+ */
+export function createSessionCookie(
+  session: IssuedSession,
+  options: SessionOptions
+): string {
+  const maxAge = Math.max(
+    Math.floor((session.expiresAt - Date.now()) / 1000),
+    0
+  );
+  return serializeSessionCookie(options, session.token, maxAge);
+}
+
+function getSessionToken(
+  request: Request,
+  options: SessionOptions
+): string | null {
+  const cookie = readCookie(
+    request,
+    options.cookie?.name ?? DEFAULT_COOKIE_NAME
+  );
+  if (cookie) {
+    return cookie;
+  }
+
+  const authorization = request.headers.get("authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim() || null;
+  }
+
+  return null;
+}
+
+function serializeSessionCookie(
+  options: SessionOptions,
+  value: string,
+  maxAge: number
+): string {
+  const { name, ...attributes } = options.cookie ?? {};
+  return serializeCookie(
+    name ?? DEFAULT_COOKIE_NAME,
+    value,
+    maxAge,
+    attributes
+  );
+}
+
+function encodeSegment(value: unknown): string {
+  return isoBase64URL.fromUTF8String(JSON.stringify(value));
+}
@@ -0,0 +1,17 @@
+/**
+ * Default ceremony timeout: 5 minutes
+ */
+export const DEFAULT_TIMEOUT_MS = 1000 * 60 * 5;
+
+/**
+ * Longest ceremony timeout accepted: 10 minutes
+ * Challenges live as long as the timeout, so an unbounded one would let them pile up in the store
+ */
+export const MAX_TIMEOUT_MS = 1000 * 60 * 10;
+
+/**
+ * Resolve a requested ceremony timeout, clamped to MAX_TIMEOUT_MS
+ */
+export function resolveTimeout(timeout: number | undefined): number {
+  return Math.min(timeout || DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS);
+}
@@ -0,0 +1,193 @@
+import type {
+  AuditLogEntry,
+  AuditLogQuery,
+  AuditLogStore,
+  ErrorCode,
+  PasskeyEvent,
+  PasskeyEventType,
+} from "../types/index";
+import type { DatabaseClient } from "./db";
+import { runMigrations } from "./migrations";
+import {
+  placeholder,
+  placeholders,
+  quoteIdentifier,
+  type SqlDialect,
+  toSqlTimestamp,
+} from "./sql";
+
+/**
+ * DbAuditLogStore options
+ */
+export interface DbAuditLogStoreOptions {
+  /** Table name for the audit log, optionally schema-qualified (default: "passkey_audit_log") */
+  tableName?: string;
+  /** SQL dialect for placeholders and identifier quoting (default: "sqlite") */
+  dialect?: SqlDialect;
+}
+
+interface AuditLogRow {
+  id: string;
+  type: PasskeyEventType;
+  user_id: string | null;
+  credential_id: string | null;
+  error_code: string | null;
+  error_message: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  details: unknown;
+  created_at: string | Date;
+}
+
+const COLUMNS = [
+  "id",
+  "type",
+  "user_id",
+  "credential_id",
+  "error_code",
+  "error_message",
+  "ip",
+  "user_agent",
+  "details",
+  "created_at",
+];
+
+/**
+ * SQL audit log for passkey events
+ * Works with PostgreSQL, MySQL, SQLite and SQL Server via the generic DatabaseClient interface
+ *
+ * @example
+ * ```typescript
+ * const auditLog = new DbAuditLogStore(db, { dialect: "postgres" });
+ * await auditLog.initializeTable();
+ * ```
+ */
+export class DbAuditLogStore implements AuditLogStore {
+  private readonly tableName: string;
+  private readonly dialect: SqlDialect;
+  private readonly table: string;
+  private readonly columns: string;
+
+  constructor(
+    private readonly db: DatabaseClient,
+    options: DbAuditLogStoreOptions = {}
+  ) {
+    this.tableName = options.tableName ?? "passkey_audit_log";
+    this.dialect = options.dialect ?? "sqlite";
+    this.table = quoteIdentifier(this.dialect, this.tableName);
+    this.columns = COLUMNS.map((column) =>
+      quoteIdentifier(this.dialect, column)
+    ).join(", ");
+  }
+
+  async append(event: PasskeyEvent): Promise<void> {
+    await this.db.execute(
+      `INSERT INTO ${this.table} (${this.columns}) VALUES (${placeholders(
+        this.dialect,
+        COLUMNS.length
+      )})`,
+      [
+        crypto.randomUUID(),
+        event.type,
+        event.userId ?? null,
+        event.credentialId ?? null,
+        event.errorCode ?? null,
+        event.errorMessage ?? null,
+        event.ip ?? null,
+        event.userAgent ?? null,
+        event.details ? JSON.stringify(event.details) : null,
+        toSqlTimestamp(this.dialect, Date.parse(event.timestamp)),
+      ]
+    );
+  }
+
+  async query(query: AuditLogQuery = {}): Promise<AuditLogEntry[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    const where = (sql: string, ...values: unknown[]) => {
+      conditions.push(sql);
+      params.push(...values);
+    };
+
+    if (query.userId) {
+      where(`user_id = ${this.param(params.length + 1)}`, query.userId);
+    }
+    if (query.credentialId) {
+      where(
+        `credential_id = ${this.param(params.length + 1)}`,
+        query.credentialId
+      );
+    }
+    if (query.types) {
+      if (query.types.length === 0) {
+        return [];
+      }
+      where(
+        `type IN (${placeholders(
+          this.dialect,
+          query.types.length,
+          params.length + 1
+        )})`,
+        ...query.types
+      );
+    }
+    if (query.since) {
+      where(
+        `created_at >= ${this.param(params.length + 1)}`,
+        toSqlTimestamp(this.dialect, Date.parse(query.since))
+      );
+    }
+    if (query.until) {
+      where(
+        `created_at < ${this.param(params.length + 1)}`,
+        toSqlTimestamp(this.dialect, Date.parse(query.until))
+      );
+    }
+
+    const limit = Math.max(Math.floor(query.limit ?? 100), 0);
+    const filter =
+      conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+    // SQL Server has no LIMIT clause
+    const sql =
+      this.dialect === "mssql"
+        ? `SELECT TOP (${limit}) ${this.columns} FROM ${this.table}${filter} ORDER BY created_at DESC`
+        : `SELECT ${this.columns} FROM ${this.table}${filter} ORDER BY created_at DESC LIMIT ${limit}`;
+
+    const rows = await this.db.query<AuditLogRow>(sql, params);
+    return rows.map((row) => this.mapRowToEntry(row));
+  }
+
+  /**
+   * Create or upgrade the audit log table
+   * Call this during setup
+   */
+  async initializeTable(): Promise<void> {
+    await runMigrations(this.db, {
+      dialect: this.dialect,
+      targets: ["audit"],
+      auditLogTable: this.tableName,
+    });
+  }
+
+  private param(index: number): string {
+    return placeholder(this.dialect, index);
+  }
+
+  private mapRowToEntry(row: AuditLogRow): AuditLogEntry {
+    return {
+      id: row.id,
+      type: row.type,
+      userId: row.user_id ?? undefined,
+      credentialId: row.credential_id ?? undefined,
+      errorCode: (row.error_code as ErrorCode) ?? undefined,
+      errorMessage: row.error_message ?? undefined,
+      ip: row.ip ?? undefined,
+      userAgent: row.user_agent ?? undefined,
+      details:
+        typeof row.details === "string"
+          ? JSON.parse(row.details)
+          : (row.details as Record<string, unknown>) ?? undefined,
+      timestamp: new Date(row.created_at).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import type {
+  AuditLogEntry,
+  AuditLogQuery,
+  AuditLogStore,
+  PasskeyEvent,
+} from "../types/index";
+
+/**
+ * In-memory audit log options
+ */
+export interface MemoryAuditLogStoreOptions {
+  /** Maximum entries kept; the oldest are dropped (default: 10000) */
+  maxEntries?: number;
+}
+
+/**
+ * In-memory audit log for development and tests
+ * Entries live in the current process and are lost on restart.
+ */
+export class MemoryAuditLogStore implements AuditLogStore {
+  private readonly entries: AuditLogEntry[] = [];
+  private readonly maxEntries: number;
+
+  constructor(options: MemoryAuditLogStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 10_000;
+  }
+
+  async append(event: PasskeyEvent): Promise<void> {
+    this.entries.push({ ...structuredClone(event), id: crypto.randomUUID() });
+
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+
+  async query(query: AuditLogQuery = {}): Promise<AuditLogEntry[]> {
+    const since = query.since ? Date.parse(query.since) : -Infinity;
+    const until = query.until ? Date.parse(query.until) : Infinity;
+
+    return this.entries
+      .filter((entry) => {
+        const time = Date.parse(entry.timestamp);
+        return (
+          (!query.userId || entry.userId === query.userId) &&
+          (!query.credentialId || entry.credentialId === query.credentialId) &&
+          (!query.types || query.types.includes(entry.type)) &&
+          time >= since &&
+          time < until
+        );
+      })
+      .reverse()
+      .slice(0, query.limit ?? 100)
+      .map((entry) => structuredClone(entry));
+  }
+
+  /**
+   * Remove all entries
+   */
+  async clear(): Promise<void> {
+    this.entries.length = 0;
+  }
+}
@@ -0,0 +1,251 @@
+import { isoBase64URL } from "@simplewebauthn/server/helpers";
+import type {
+  ChallengeRecord,
+  ChallengeStore,
+  ChallengeStoreContext,
+  SessionCookieOptions,
+} from "../types/index";
+import { readCookie, serializeCookie } from "../utils/cookies";
+
+/**
+ * Shared record of consumed challenge IDs, which makes cookie challenges single-use
+ */
+export interface UsedChallengeCache {
+  /**
+   * Atomically record a consumed challenge ID for `ttlSeconds`
+   * Resolve false if the ID was already recorded (e.g. Redis `SET key 1 NX EX ttl`)
+   */
+  add(id: string, ttlSeconds: number): Promise<boolean>;
+}
+
+/**
+ * Cookie challenge store options
+ */
+export interface CookieChallengeStoreOptions {
+  /** Encryption secret (at least 32 characters); use a different one from the session secret */
+  secret: string;
+  /** Default TTL in seconds (default: 300 = 5 minutes) */
+  defaultTTL?: number;
+  /**
+   * Cookie attributes; `name` is a prefix, completed with the challenge ID
+   * (default: "passkey_challenge", SameSite=Strict)
+   */
+  cookie?: SessionCookieOptions;
+  /**
+   * Cache of consumed challenge IDs shared by all instances (optional)
+   * Without it, a captured cookie can be replayed until it expires
+   */
+  usedChallenges?: UsedChallengeCache;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Stateless challenge store that keeps each challenge in an encrypted cookie
+ *
+ * Records are sealed with AES-256-GCM under a key derived from the secret,
+ * with the challenge ID as additional data, so a cookie cannot be tampered
+ * with or moved to another ceremony. Each ceremony gets its own HttpOnly
+ * cookie, which is cleared when the challenge is consumed.
+ *
+ * The store needs the request and response, so it only works through
+ * `bind()`; createPasskeyHandlers binds it for every request.
+ *
+ * **Replay:** a cookie cannot be revoked. Without `usedChallenges`, nothing
+ * stops a captured cookie and credential response from being replayed
+ * together until the cookie expires; the signature counter does not help
+ * with synced passkeys, which report 0. Pass a `usedChallenges` cache backed
+ * by shared storage to make each challenge single-use across requests.
+ *
+ * @example
+ * ```typescript
+ * const store = new CookieChallengeStore({ secret: process.env.CHALLENGE_SECRET! });
+ * ```
+ */
+export class CookieChallengeStore implements ChallengeStore {
+  private readonly defaultTTL: number;
+  private readonly cookieName: string;
+  private readonly consumed = new Set<string>();
+  private key?: Promise<CryptoKey>;
+
+  constructor(
+    private readonly options: CookieChallengeStoreOptions,
+    private readonly context?: ChallengeStoreContext
+  ) {
+    if (!options.secret || options.secret.length < 32) {
+      throw new Error(
+        "CookieChallengeStore requires a secret of at least 32 characters."
+      );
+    }
+
+    this.defaultTTL = options.defaultTTL ?? 300;
+    this.cookieName = options.cookie?.name ?? "passkey_challenge";
+  }
+
+  bind(context: ChallengeStoreContext): ChallengeStore {
+    const store = new CookieChallengeStore(this.options, context);
+    // Share the derived key between requests
+    store.key = this.getKey();
+    return store;
+  }
+
+  async set(record: ChallengeRecord): Promise<void> {
+    const { responseHeaders } = this.requireContext();
+
+    // Use the shorter of record expiration or default TTL
+    const expiresAt = Math.min(
+      record.expiresAt,
+      Date.now() + this.defaultTTL * 1000
+    );
+    const maxAge = Math.max(Math.ceil((expiresAt - Date.now()) / 1000), 1);
+
+    const sealed = await this.seal({ ...record, expiresAt });
+    responseHeaders.append(
+      "Set-Cookie",
+      this.serialize(this.getCookieName(record.id), sealed, maxAge)
+    );
+  }
+
+  async get(id: string): Promise<ChallengeRecord | null> {
+    const { request } = this.requireContext();
+
+    if (this.consumed.has(id)) {
+      return null;
+    }
+
+    const sealed = readCookie(request, this.getCookieName(id));
+    if (!sealed) {
+      return null;
+    }
+
+    const record = await this.unseal(id, sealed);
+    return record && Date.now() <= record.expiresAt ? record : null;
+  }
+
+  async delete(id: string): Promise<void> {
+    const { responseHeaders } = this.requireContext();
+
+    this.consumed.add(id);
+    responseHeaders.append(
+      "Set-Cookie",
+      this.serialize(this.getCookieName(id), "", 0)
+    );
+  }
+
+  async consume(id: string): Promise<ChallengeRecord | null> {
+    const record = await this.get(id);
+    if (!record) {
+      return null;
+    }
+
+    await this.delete(id);
+
+    const { usedChallenges } = this.options;
+    if (usedChallenges) {
+      const ttlSeconds = Math.max(
+        Math.ceil((record.expiresAt - Date.now()) / 1000),
+        1
+      );
+      if (!(await usedChallenges.add(id, ttlSeconds))) {
+        return null;
+      }
+    }
+
+    return record;
+  }
+
+  private requireContext(): ChallengeStoreContext {
+    if (!this.context) {
+      throw new Error(
+        "CookieChallengeStore must be bound to a request. Use createPasskeyHandlers, or pass store.bind({ request, responseHeaders }) to the server functions."
+      );
+    }
+    return this.context;
+  }
+
+  /**
+   * Encrypt a record as `<iv>.<ciphertext>` (base64url)
+   */
+  private async seal(record: ChallengeRecord): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      {
+        name: "AES-GCM",
+        iv,
+        additionalData: encoder.encode(record.id),
+      },
+      await this.getKey(),
+      encoder.encode(JSON.stringify(record))
+    );
+
+    return `${isoBase64URL.fromBuffer(iv)}.${isoBase64URL.fromBuffer(
+      new Uint8Array(ciphertext)
+    )}`;
+  }
+
+  /**
+   * Decrypt a sealed record, or return null if it was tampered with or belongs to another challenge
+   */
+  private async unseal(
+    id: string,
+    sealed: string
+  ): Promise<ChallengeRecord | null> {
+    const [iv, ciphertext, ...rest] = sealed.split(".");
+    if (!iv || !ciphertext || rest.length > 0) {
+      return null;
+    }
+
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: isoBase64URL.toBuffer(iv) as Uint8Array<ArrayBuffer>,
+          additionalData: encoder.encode(id),
+        },
+        await this.getKey(),
+        isoBase64URL.toBuffer(ciphertext) as Uint8Array<ArrayBuffer>
+      );
+
+      const record: ChallengeRecord = JSON.parse(decoder.decode(plaintext));
+      return record.id === id ? record : null;
+    } catch {
+      // Authentication tag mismatch or malformed value
+      return null;
+    }
+  }
+
+  private getKey(): Promise<CryptoKey> {
+    this.key ??= crypto.subtle
+      .importKey("raw", encoder.encode(this.options.secret), "HKDF", false, [
+        "deriveKey",
+      ])
+      .then((secret) =>
+        crypto.subtle.deriveKey(
+          {
+            name: "HKDF",
+            hash: "SHA-256",
+            salt: new Uint8Array(),
+            info: encoder.encode("next-passkey-webauthn challenge"),
+          },
+          secret,
+          { name: "AES-GCM", length: 256 },
+          false,
+          ["encrypt", "decrypt"]
+        )
+      );
+    return this.key;
+  }
+
+  private getCookieName(id: string): string {
+    return `${this.cookieName}_${id}`;
+  }
+
+  private serialize(name: string, value: string, maxAge: number): string {
+    const { name: _name, ...attributes } = this.options.cookie ?? {};
+    return serializeCookie(name, value, maxAge, {
+      ...attributes,
+      sameSite: attributes.sameSite ?? "strict",
+    });
+  }
+}
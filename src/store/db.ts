@@ -1,118 +1,281 @@
-import type { ChallengeRecord, ChallengeStore, Flow } from "../types/index";
+import type {
+  ChallengeRecord,
+  ChallengeStore,
+  Flow,
+  UserVerificationRequirement,
+} from "../types/index";
+import { runMigrations } from "./migrations";
+import {
+  placeholder,
+  quoteIdentifier,
+  type SqlDialect,
+  toSqlTimestamp,
+  upsertSql,
+} from "./sql";
 
 /**
- * Generic database client interface for challenge storage
+ * Generic database client interface, used by DbStore, DbAdapter, DbAuditLogStore and runMigrations
  */
 export interface DatabaseClient {
   query<T = unknown>(sql: string, params?: unknown[]): Promise<T[]>;
   execute(sql: string, params?: unknown[]): Promise<void>;
+  /**
+   * Run `fn` in a transaction (optional)
+   * Required by DbStore on MySQL, which has no DELETE ... RETURNING; also used by runMigrations
+   */
+  transaction?<T>(fn: (tx: DatabaseClient) => Promise<T>): Promise<T>;
+}
+
+/**
+ * DbStore options
+ */
+export interface DbStoreOptions {
+  /** Table name for challenges, optionally schema-qualified (default: "passkey_challenges") */
+  tableName?: string;
+  /** Maximum outstanding challenges per user; the oldest are evicted (default: 5) */
+  maxChallengesPerUser?: number;
+  /** SQL dialect for placeholders, upserts and identifier quoting (default: "sqlite") */
+  dialect?: SqlDialect;
+}
+
+interface ChallengeRow {
+  id: string;
+  user_id: string;
+  flow: Flow;
+  challenge: string;
+  expires_at: string | Date;
+  user_verification: UserVerificationRequirement | null;
+  /** JSON array of COSE algorithm IDs */
+  supported_algorithm_ids: string | null;
+}
+
+const COLUMNS = [
+  "id",
+  "user_id",
+  "flow",
+  "challenge",
+  "expires_at",
+  "user_verification",
+  "supported_algorithm_ids",
+];
+
+type Transaction = NonNullable<DatabaseClient["transaction"]>;
+
+/**
+ * The client's transaction function
+ * Throws right away on MySQL, which needs one to consume challenges; on other dialects
+ * a missing transaction only fails if it is ever called.
+ */
+function requireTransaction(
+  db: DatabaseClient,
+  dialect: SqlDialect
+): Transaction {
+  if (db.transaction) {
+    return db.transaction.bind(db);
+  }
+
+  const error = new Error(
+    `DbStore with the ${dialect} dialect requires a DatabaseClient with transaction()`
+  );
+  if (dialect === "mysql") {
+    throw error;
+  }
+  return () => Promise.reject(error);
 }
 
 /**
  * Database-based challenge store
- * Works with any SQL database via generic interface
+ * Works with PostgreSQL, MySQL, SQLite and SQL Server via the generic DatabaseClient interface
+ *
+ * @example
+ * ```typescript
+ * const store = new DbStore(db, { dialect: "postgres" });
+ * await store.initializeTable();
+ * ```
  */
 export class DbStore implements ChallengeStore {
+  private readonly tableName: string;
+  private readonly maxChallengesPerUser: number;
+  private readonly dialect: SqlDialect;
+  private readonly table: string;
+  private readonly columns: string;
+  private readonly transaction: Transaction;
+
   constructor(
     private readonly db: DatabaseClient,
-    /** Table name for challenges (default: "passkey_challenges") */
-    private readonly tableName = "passkey_challenges"
-  ) {}
+    /** Options, or the table name for backward compatibility */
+    options: DbStoreOptions | string = {},
+    /** Maximum outstanding challenges per user, when `options` is a table name */
+    maxChallengesPerUser?: number
+  ) {
+    const resolved =
+      typeof options === "string"
+        ? { tableName: options, maxChallengesPerUser }
+        : options;
 
-  async set(record: ChallengeRecord): Promise<void> {
-    const sql = `
-			INSERT INTO ${this.tableName} (id, user_id, flow, challenge, expires_at)
-			VALUES (?, ?, ?, ?, ?)
-			ON CONFLICT(id) DO UPDATE SET
-				challenge = excluded.challenge,
-				expires_at = excluded.expires_at
-		`;
+    this.tableName = resolved.tableName ?? "passkey_challenges";
+    this.maxChallengesPerUser = resolved.maxChallengesPerUser ?? 5;
+    this.dialect = resolved.dialect ?? "sqlite";
+    this.table = quoteIdentifier(this.dialect, this.tableName);
+    this.columns = COLUMNS.map((column) =>
+      quoteIdentifier(this.dialect, column)
+    ).join(", ");
 
-    const expiresAt = new Date(record.expiresAt).toISOString();
+    this.transaction = requireTransaction(db, this.dialect);
+  }
+
+  async set(record: ChallengeRecord): Promise<void> {
+    const sql = upsertSql(this.dialect, this.tableName, COLUMNS, "id", [
+      "challenge",
+      "expires_at",
+      "user_verification",
+      "supported_algorithm_ids",
+    ]);
 
     await this.db.execute(sql, [
       record.id,
       record.userId,
       record.flow,
       record.challenge,
-      expiresAt,
+      toSqlTimestamp(this.dialect, record.expiresAt),
+      record.userVerification ?? null,
+      record.supportedAlgorithmIDs
+        ? JSON.stringify(record.supportedAlgorithmIDs)
+        : null,
     ]);
+
+    await this.evictOldest(record.userId);
   }
 
-  async get(userId: string, flow: Flow): Promise<ChallengeRecord | null> {
+  async get(id: string): Promise<ChallengeRecord | null> {
     // First cleanup expired challenges
     await this.cleanupExpired();
 
-    const id = this.getChallengeId(userId, flow);
     const sql = `
-			SELECT id, user_id, flow, challenge, expires_at
-			FROM ${this.tableName}
-			WHERE id = ? AND expires_at > ?
+			SELECT ${this.columns}
+			FROM ${this.table}
+			WHERE id = ${this.param(1)} AND expires_at > ${this.param(2)}
 		`;
 
-    const now = new Date().toISOString();
-    const rows = await this.db.query<{
-      id: string;
-      user_id: string;
-      flow: Flow;
-      challenge: string;
-      expires_at: string;
-    }>(sql, [id, now]);
+    const now = toSqlTimestamp(this.dialect, Date.now());
+    const rows = await this.db.query<ChallengeRow>(sql, [id, now]);
 
     if (rows.length === 0) {
       return null;
     }
 
-    const row = rows[0];
-    return {
-      id: row.id,
-      userId: row.user_id,
-      flow: row.flow as Flow,
-      challenge: row.challenge,
-      expiresAt: new Date(row.expires_at).getTime(),
-    };
+    return this.toRecord(rows[0]);
   }
 
-  async delete(userId: string, flow: Flow): Promise<void> {
-    const id = this.getChallengeId(userId, flow);
-    const sql = `DELETE FROM ${this.tableName} WHERE id = ?`;
+  async delete(id: string): Promise<void> {
+    const sql = `DELETE FROM ${this.table} WHERE id = ${this.param(1)}`;
     await this.db.execute(sql, [id]);
   }
 
+  async consume(id: string): Promise<ChallengeRecord | null> {
+    const rows = await this.deleteReturning(id);
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const record = this.toRecord(rows[0]);
+    return Date.now() > record.expiresAt ? null : record;
+  }
+
   /**
    * Clean up expired challenges (called automatically in get)
    */
   async cleanupExpired(): Promise<void> {
-    const sql = `DELETE FROM ${this.tableName} WHERE expires_at <= ?`;
-    const now = new Date().toISOString();
+    const sql = `DELETE FROM ${this.table} WHERE expires_at <= ${this.param(
+      1
+    )}`;
+    const now = toSqlTimestamp(this.dialect, Date.now());
     await this.db.execute(sql, [now]);
   }
 
   /**
-   * Initialize the challenges table
-   * Call this during setup to create the table
+   * Create or upgrade the challenges table
+   * Call this during setup; see runMigrations to manage the credentials table as well
    */
   async initializeTable(): Promise<void> {
-    const sql = `
-			CREATE TABLE IF NOT EXISTS ${this.tableName} (
-				id TEXT PRIMARY KEY,
-				user_id TEXT NOT NULL,
-				flow TEXT NOT NULL,
-				challenge TEXT NOT NULL,
-				expires_at TIMESTAMP NOT NULL
-			)
-		`;
-    await this.db.execute(sql);
+    await runMigrations(this.db, {
+      dialect: this.dialect,
+      targets: ["challenges"],
+      challengesTable: this.tableName,
+    });
+  }
 
-    // Create index for cleanup queries
-    const indexSql = `
-			CREATE INDEX IF NOT EXISTS idx_${this.tableName}_expires_at
-			ON ${this.tableName} (expires_at)
-		`;
-    await this.db.execute(indexSql);
+  /**
+   * Delete a challenge and return it, so that exactly one caller receives it
+   */
+  private async deleteReturning(id: string): Promise<ChallengeRow[]> {
+    switch (this.dialect) {
+      case "mysql":
+        // MySQL has no DELETE ... RETURNING; lock the row, then delete it
+        return this.transaction(async (tx) => {
+          const rows = await tx.query<ChallengeRow>(
+            `SELECT ${this.columns} FROM ${this.table} WHERE id = ? FOR UPDATE`,
+            [id]
+          );
+          if (rows.length > 0) {
+            await tx.execute(`DELETE FROM ${this.table} WHERE id = ?`, [id]);
+          }
+          return rows;
+        });
+      case "mssql":
+        return this.db.query<ChallengeRow>(
+          `DELETE FROM ${this.table}
+			OUTPUT ${COLUMNS.map(
+        (column) => `DELETED.${quoteIdentifier(this.dialect, column)}`
+      ).join(", ")}
+			WHERE id = @p1`,
+          [id]
+        );
+      default:
+        // A single DELETE ... RETURNING hands the row to exactly one caller
+        return this.db.query<ChallengeRow>(
+          `DELETE FROM ${this.table}
+			WHERE id = ${this.param(1)}
+			RETURNING ${this.columns}`,
+          [id]
+        );
+    }
   }
 
-  private getChallengeId(userId: string, flow: Flow): string {
-    return `${userId}:${flow}`;
+  /**
+   * Delete a user's oldest challenges beyond the per-user cap
+   */
+  private async evictOldest(userId: string): Promise<void> {
+    const rows = await this.db.query<{ id: string }>(
+      `SELECT id FROM ${this.table} WHERE user_id = ${this.param(
+        1
+      )} ORDER BY expires_at DESC`,
+      [userId]
+    );
+
+    for (const row of rows.slice(this.maxChallengesPerUser)) {
+      await this.db.execute(
+        `DELETE FROM ${this.table} WHERE id = ${this.param(1)}`,
+        [row.id]
+      );
+    }
+  }
+
+  private param(index: number): string {
+    return placeholder(this.dialect, index);
+  }
+
+  private toRecord(row: ChallengeRow): ChallengeRecord {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      flow: row.flow as Flow,
+      challenge: row.challenge,
+      expiresAt: new Date(row.expires_at).getTime(),
+      userVerification: row.user_verification ?? undefined,
+      supportedAlgorithmIDs: row.supported_algorithm_ids
+        ? JSON.parse(row.supported_algorithm_ids)
+        : undefined,
+    };
   }
 }
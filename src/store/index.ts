@@ -5,8 +5,44 @@
  * 1. RedisStore - Best performance, handles TTL automatically, works great locally with Docker
  * 2. SupabaseStore - Good for Supabase users, reliable database persistence
  * 3. DbStore - Generic database solution for other database setups
+ * 4. MongoStore - MongoDB, with expiry handled by a TTL index
+ * 5. KVStore - Fetch-based KV services (Vercel KV, Cloudflare KV, Upstash) on Edge runtimes
+ *
+ * CookieChallengeStore keeps challenges in encrypted cookies, for serverless setups without storage.
+ * MemoryStore keeps challenges in the current process, for development and tests only.
+ *
+ * DbAuditLogStore and MemoryAuditLogStore record passkey events (see `ServerOptions.auditLog`).
+ * RedisRateLimiter and MemoryRateLimiter limit ceremony attempts (see `ServerOptions.rateLimiter`).
  */
 
 export { RedisStore, type RedisClient } from "./redis";
 export { SupabaseStore } from "./supabase";
-export { DbStore, type DatabaseClient } from "./db";
+export { KVStore, type KVClient, type KVStoreOptions } from "./kv";
+export {
+  CookieChallengeStore,
+  type CookieChallengeStoreOptions,
+  type UsedChallengeCache,
+} from "./cookie";
+export { DbStore, type DatabaseClient, type DbStoreOptions } from "./db";
+export {
+  runMigrations,
+  type MigrationOptions,
+  type MigrationTarget,
+} from "./migrations";
+export type { SqlDialect } from "./sql";
+export {
+  MongoStore,
+  type MongoCollection,
+  type MongoChallengeDocument,
+} from "./mongo";
+export { MemoryStore, type MemoryStoreOptions } from "./memory";
+export { DbAuditLogStore, type DbAuditLogStoreOptions } from "./audit-db";
+export {
+  MemoryAuditLogStore,
+  type MemoryAuditLogStoreOptions,
+} from "./audit-memory";
+export {
+  RedisRateLimiter,
+  MemoryRateLimiter,
+  type RateLimiterOptions,
+} from "./rate-limit";
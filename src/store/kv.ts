@@ -0,0 +1,203 @@
+import type { ChallengeRecord, ChallengeStore } from "../types/index";
+
+/**
+ * Key-value client interface (compatible with Cloudflare Workers KV; see the
+ * API reference for Vercel KV and Upstash wrappers)
+ */
+export interface KVClient {
+  /** Read a value; JSON values may come back already parsed (Vercel KV, Upstash) */
+  get(key: string): Promise<unknown>;
+  put(
+    key: string,
+    value: string,
+    options: { expirationTtl: number }
+  ): Promise<unknown>;
+  delete(key: string): Promise<unknown>;
+  /** Atomically read and delete a value (optional, e.g. Redis GETDEL via Vercel KV or Upstash) */
+  getDelete?(key: string): Promise<unknown>;
+}
+
+/**
+ * KV challenge store options
+ */
+export interface KVStoreOptions {
+  /** Default TTL in seconds (default: 300 = 5 minutes) */
+  defaultTTL?: number;
+  /** Maximum outstanding challenges per user; the oldest are evicted (default: 5) */
+  maxChallengesPerUser?: number;
+  /** Prefix for all keys (default: "passkey:") */
+  keyPrefix?: string;
+}
+
+/**
+ * Some KV services reject shorter TTLs (Cloudflare KV); expiry is also checked on read
+ */
+const MIN_TTL = 60;
+
+/**
+ * Key-value challenge store for Edge runtimes
+ *
+ * Works with fetch-based KV services such as Vercel KV, Cloudflare Workers KV
+ * and Upstash Redis REST. Without `getDelete`, consuming a challenge is a read
+ * followed by a delete, so two concurrent requests may both receive it; on
+ * eventually consistent stores like Cloudflare KV, a deleted challenge can
+ * also remain readable for up to a minute.
+ *
+ * @example
+ * ```typescript
+ * // Cloudflare Workers KV
+ * const store = new KVStore(env.PASSKEY_KV);
+ * ```
+ */
+export class KVStore implements ChallengeStore {
+  private readonly defaultTTL: number;
+  private readonly maxChallengesPerUser: number;
+  private readonly keyPrefix: string;
+
+  constructor(private readonly kv: KVClient, options: KVStoreOptions = {}) {
+    this.defaultTTL = options.defaultTTL ?? 300;
+    this.maxChallengesPerUser = options.maxChallengesPerUser ?? 5;
+    this.keyPrefix = options.keyPrefix ?? "passkey:";
+  }
+
+  async set(record: ChallengeRecord): Promise<void> {
+    const ttlSeconds = Math.ceil((record.expiresAt - Date.now()) / 1000);
+
+    // Use the shorter of record expiration or default TTL
+    const finalTTL = Math.min(Math.max(ttlSeconds, 1), this.defaultTTL);
+    const expiresAt = Math.min(record.expiresAt, Date.now() + finalTTL * 1000);
+
+    try {
+      await this.kv.put(
+        this.getChallengeKey(record.id),
+        JSON.stringify({ ...record, expiresAt }),
+        { expirationTtl: Math.max(finalTTL, MIN_TTL) }
+      );
+      await this.trackChallenge({ ...record, expiresAt });
+    } catch (error) {
+      throw new Error(
+        `Failed to store challenge in KV: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  async get(id: string): Promise<ChallengeRecord | null> {
+    try {
+      const record = parseRecord(await this.kv.get(this.getChallengeKey(id)));
+
+      // The KV TTL is rounded up, so check the record's own expiration
+      return record && Date.now() <= record.expiresAt ? record : null;
+    } catch (error) {
+      throw new Error(
+        `Failed to retrieve challenge from KV: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.kv.delete(this.getChallengeKey(id));
+    } catch (error) {
+      throw new Error(
+        `Failed to delete challenge from KV: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  async consume(id: string): Promise<ChallengeRecord | null> {
+    const key = this.getChallengeKey(id);
+
+    try {
+      let value: unknown;
+      if (this.kv.getDelete) {
+        value = await this.kv.getDelete(key);
+      } else {
+        value = await this.kv.get(key);
+        if (value !== null && value !== undefined) {
+          await this.kv.delete(key);
+        }
+      }
+
+      const record = parseRecord(value);
+      return record && Date.now() <= record.expiresAt ? record : null;
+    } catch (error) {
+      throw new Error(
+        `Failed to consume challenge from KV: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Record a challenge in its user's index and evict the oldest past the cap
+   * The index is best-effort: challenges expire on their own TTL regardless
+   */
+  private async trackChallenge(record: ChallengeRecord): Promise<void> {
+    const indexKey = this.getUserIndexKey(record.userId);
+    const now = Date.now();
+
+    let entries: { id: string; expiresAt: number }[] = [];
+    try {
+      const value = await this.kv.get(indexKey);
+      entries = (typeof value === "string" ? JSON.parse(value) : value) ?? [];
+    } catch {
+      // Corrupt index, start over
+    }
+    if (!Array.isArray(entries)) {
+      entries = [];
+    }
+
+    entries = entries
+      .filter((entry) => entry.expiresAt > now && entry.id !== record.id)
+      .concat({ id: record.id, expiresAt: record.expiresAt })
+      .sort((a, b) => a.expiresAt - b.expiresAt);
+
+    const evicted = entries.slice(
+      0,
+      Math.max(entries.length - this.maxChallengesPerUser, 0)
+    );
+    for (const entry of evicted) {
+      await this.kv.delete(this.getChallengeKey(entry.id));
+    }
+
+    await this.kv.put(
+      indexKey,
+      JSON.stringify(entries.slice(evicted.length)),
+      // No challenge outlives the default TTL, so neither does the index
+      { expirationTtl: Math.max(this.defaultTTL, MIN_TTL) }
+    );
+  }
+
+  private getChallengeKey(id: string): string {
+    return `${this.keyPrefix}challenge:${id}`;
+  }
+
+  private getUserIndexKey(userId: string): string {
+    return `${this.keyPrefix}challenges:${userId}`;
+  }
+}
+
+/**
+ * Parse a stored record, which may be a JSON string or an already parsed object
+ */
+function parseRecord(value: unknown): ChallengeRecord | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  try {
+    return (
+      typeof value === "string" ? JSON.parse(value) : value
+    ) as ChallengeRecord;
+  } catch {
+    // Invalid JSON
+    return null;
+  }
+}
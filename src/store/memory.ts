@@ -0,0 +1,165 @@
+import type { ChallengeRecord, ChallengeStore } from "../types/index";
+import { readJsonFile, writeJsonFile } from "../utils/json-file";
+
+/**
+ * In-memory challenge store options
+ */
+export interface MemoryStoreOptions {
+  /** Default TTL in seconds (default: 300 = 5 minutes) */
+  defaultTTL?: number;
+  /** Maximum outstanding challenges per user; the oldest are evicted (default: 5) */
+  maxChallengesPerUser?: number;
+  /** Maximum challenges held in total; the oldest are evicted (default: 10000) */
+  maxSize?: number;
+  /** Persist challenges to this JSON file so they survive restarts (Node.js only) */
+  filePath?: string;
+}
+
+/**
+ * In-memory challenge store for development and tests
+ *
+ * Behaves like RedisStore: TTL expiry capped at the default TTL, a per-user
+ * challenge cap and single-use `consume`. State lives in the current process,
+ * so do not use it with multiple server instances.
+ */
+export class MemoryStore implements ChallengeStore {
+  private readonly records = new Map<string, ChallengeRecord>();
+  private readonly defaultTTL: number;
+  private readonly maxChallengesPerUser: number;
+  private readonly maxSize: number;
+  private readonly filePath?: string;
+  private loaded?: Promise<void>;
+  private persisting: Promise<void> = Promise.resolve();
+
+  constructor(options: MemoryStoreOptions = {}) {
+    this.defaultTTL = options.defaultTTL ?? 300;
+    this.maxChallengesPerUser = options.maxChallengesPerUser ?? 5;
+    this.maxSize = options.maxSize ?? 10_000;
+    this.filePath = options.filePath;
+  }
+
+  async set(record: ChallengeRecord): Promise<void> {
+    await this.load();
+
+    // Use the shorter of record expiration or default TTL
+    const expiresAt = Math.min(
+      record.expiresAt,
+      Date.now() + this.defaultTTL * 1000
+    );
+
+    this.records.delete(record.id);
+    this.records.set(record.id, { ...record, expiresAt });
+    this.evict(record.userId);
+
+    await this.persist();
+  }
+
+  async get(id: string): Promise<ChallengeRecord | null> {
+    await this.load();
+
+    const record = this.records.get(id);
+    if (!record) {
+      return null;
+    }
+
+    if (Date.now() > record.expiresAt) {
+      this.records.delete(id);
+      await this.persist();
+      return null;
+    }
+
+    return { ...record };
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.load();
+
+    if (this.records.delete(id)) {
+      await this.persist();
+    }
+  }
+
+  async consume(id: string): Promise<ChallengeRecord | null> {
+    await this.load();
+
+    // Read and delete without yielding, so only one caller gets the record
+    const record = this.records.get(id);
+    if (!record) {
+      return null;
+    }
+    this.records.delete(id);
+
+    await this.persist();
+    return Date.now() > record.expiresAt ? null : record;
+  }
+
+  /**
+   * Remove all challenges
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    this.records.clear();
+    await this.persist();
+  }
+
+  /**
+   * Drop expired challenges, then enforce the per-user and total caps
+   */
+  private evict(userId: string): void {
+    const now = Date.now();
+    for (const [id, record] of this.records) {
+      if (now > record.expiresAt) {
+        this.records.delete(id);
+      }
+    }
+
+    const byAge = (a: ChallengeRecord, b: ChallengeRecord) =>
+      a.expiresAt - b.expiresAt;
+
+    const userRecords = [...this.records.values()]
+      .filter((record) => record.userId === userId)
+      .sort(byAge);
+    for (const record of userRecords.slice(
+      0,
+      Math.max(userRecords.length - this.maxChallengesPerUser, 0)
+    )) {
+      this.records.delete(record.id);
+    }
+
+    if (this.records.size > this.maxSize) {
+      const allRecords = [...this.records.values()].sort(byAge);
+      for (const record of allRecords.slice(
+        0,
+        this.records.size - this.maxSize
+      )) {
+        this.records.delete(record.id);
+      }
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.filePath
+        ? readJsonFile<ChallengeRecord[]>(this.filePath).then((records) => {
+            for (const record of records ?? []) {
+              this.records.set(record.id, record);
+            }
+          })
+        : Promise.resolve();
+    }
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return Promise.resolve();
+    }
+
+    // Serialize writes so an older snapshot never overwrites a newer one
+    this.persisting = this.persisting
+      .catch(() => undefined)
+      .then(() => writeJsonFile(filePath, [...this.records.values()]));
+    return this.persisting;
+  }
+}
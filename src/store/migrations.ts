@@ -0,0 +1,313 @@
+import type { DatabaseClient } from "./db";
+import {
+  COLUMN_TYPES,
+  placeholders,
+  quoteIdentifier,
+  type SqlDialect,
+  toSqlTimestamp,
+} from "./sql";
+
+/**
+ * Tables managed by the migration runner
+ */
+export type MigrationTarget = "challenges" | "passkeys" | "audit";
+
+/**
+ * Migration runner options
+ */
+export interface MigrationOptions {
+  /** SQL dialect (default: "sqlite") */
+  dialect?: SqlDialect;
+  /** Tables to create and upgrade (default: challenges and passkeys) */
+  targets?: MigrationTarget[];
+  /** Challenges table name (default: "passkey_challenges") */
+  challengesTable?: string;
+  /** Credentials table name (default: "passkeys") */
+  passkeysTable?: string;
+  /** Audit log table name (default: "passkey_audit_log") */
+  auditLogTable?: string;
+  /** Table recording applied migrations (default: "passkey_migrations") */
+  migrationsTable?: string;
+}
+
+interface MigrationContext {
+  dialect: SqlDialect;
+  /** Unquoted table name */
+  table: string;
+}
+
+interface Migration {
+  target: MigrationTarget;
+  version: number;
+  up(context: MigrationContext): string[];
+}
+
+/**
+ * Schema migrations, in order. Never edit a released migration; append a new version instead.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    target: "challenges",
+    version: 1,
+    up: ({ dialect, table }) => {
+      const t = COLUMN_TYPES[dialect];
+      return createTable(
+        dialect,
+        table,
+        [
+          `id ${t.key} PRIMARY KEY`,
+          `user_id ${t.key} NOT NULL`,
+          `flow ${t.text} NOT NULL`,
+          `challenge ${t.text} NOT NULL`,
+          `expires_at ${t.timestamp} NOT NULL`,
+        ],
+        ["user_id", "expires_at"]
+      );
+    },
+  },
+  {
+    target: "challenges",
+    version: 2,
+    up: ({ dialect, table }) => {
+      const t = COLUMN_TYPES[dialect];
+      return addColumns(dialect, table, [
+        `user_verification ${t.text}`,
+        // SQLite cannot add a column with a non-constant default
+        dialect === "sqlite"
+          ? `created_at ${t.timestamp}`
+          : `created_at ${t.timestamp} NOT NULL DEFAULT ${t.now}`,
+      ]);
+    },
+  },
+  {
+    target: "challenges",
+    version: 3,
+    up: ({ dialect, table }) => {
+      const t = COLUMN_TYPES[dialect];
+      // JSON array of COSE algorithm IDs
+      return addColumns(dialect, table, [`supported_algorithm_ids ${t.text}`]);
+    },
+  },
+  {
+    target: "passkeys",
+    version: 1,
+    up: ({ dialect, table }) => {
+      const t = COLUMN_TYPES[dialect];
+      return createTable(
+        dialect,
+        table,
+        [
+          `id ${t.key} PRIMARY KEY`,
+          `user_id ${t.key} NOT NULL`,
+          `credential_id ${t.credentialId} NOT NULL UNIQUE`,
+          `public_key ${t.longText} NOT NULL`,
+          `counter ${t.integer} NOT NULL DEFAULT 0`,
+          `transports ${t.json}`,
+          `user_name ${t.text}`,
+          `user_display_name ${t.text}`,
+          `authenticator_attachment ${t.text}`,
+          `device_info ${t.json}`,
+          `backup_eligible ${t.boolean} NOT NULL DEFAULT ${t.false}`,
+          `backup_state ${t.boolean} NOT NULL DEFAULT ${t.false}`,
+          `aaguid ${t.text}`,
+          `attestation_format ${t.text}`,
+          `last_used_at ${t.timestamp}`,
+          `last_used_device_info ${t.json}`,
+          `suspected_clone ${t.boolean} NOT NULL DEFAULT ${t.false}`,
+          `created_at ${t.timestamp} NOT NULL DEFAULT ${t.now}`,
+          `updated_at ${t.timestamp} NOT NULL DEFAULT ${t.now}`,
+        ],
+        ["user_id"]
+      );
+    },
+  },
+  {
+    target: "passkeys",
+    version: 2,
+    up: ({ dialect, table }) => {
+      const t = COLUMN_TYPES[dialect];
+      return addColumns(dialect, table, [
+        `status ${t.text} NOT NULL DEFAULT 'active'`,
+        `revoked_at ${t.timestamp}`,
+        `revoked_reason ${t.text}`,
+      ]);
+    },
+  },
+  {
+    target: "audit",
+    version: 1,
+    up: ({ dialect, table }) => {
+      const t = COLUMN_TYPES[dialect];
+      return createTable(
+        dialect,
+        table,
+        [
+          `id ${t.key} PRIMARY KEY`,
+          `type ${t.text} NOT NULL`,
+          `user_id ${t.key}`,
+          `credential_id ${t.credentialId}`,
+          `error_code ${t.text}`,
+          `error_message ${t.longText}`,
+          `ip ${t.text}`,
+          `user_agent ${t.longText}`,
+          `details ${t.json}`,
+          `created_at ${t.timestamp} NOT NULL`,
+        ],
+        ["user_id", "created_at"]
+      );
+    },
+  },
+];
+
+/**
+ * Create or upgrade the passkey tables
+ *
+ * Applied migrations are recorded per table in `migrationsTable`, so running
+ * this on every deploy only applies what is new. Migrations use
+ * `IF NOT EXISTS` where the dialect supports it, so tables created by hand
+ * from the setup guides are adopted.
+ * Each migration runs in a transaction when the client supports one.
+ *
+ * @returns IDs of the migrations applied by this call
+ */
+export async function runMigrations(
+  db: DatabaseClient,
+  options: MigrationOptions = {}
+): Promise<string[]> {
+  const dialect = options.dialect ?? "sqlite";
+  const targets = options.targets ?? ["challenges", "passkeys"];
+  const tables: Record<MigrationTarget, string> = {
+    challenges: options.challengesTable ?? "passkey_challenges",
+    passkeys: options.passkeysTable ?? "passkeys",
+    audit: options.auditLogTable ?? "passkey_audit_log",
+  };
+  const migrationsTable = options.migrationsTable ?? "passkey_migrations";
+  const q = (name: string) => quoteIdentifier(dialect, name);
+
+  const t = COLUMN_TYPES[dialect];
+  for (const sql of createTable(dialect, migrationsTable, [
+    `id ${t.key} PRIMARY KEY`,
+    `applied_at ${t.timestamp} NOT NULL`,
+  ])) {
+    await db.execute(sql);
+  }
+
+  const rows = await db.query<{ id: string }>(
+    `SELECT id FROM ${q(migrationsTable)}`
+  );
+  const applied = new Set(rows.map((row) => row.id));
+  const appliedNow: string[] = [];
+
+  for (const migration of MIGRATIONS) {
+    if (!targets.includes(migration.target)) {
+      continue;
+    }
+
+    const table = tables[migration.target];
+    const id = `${table}:${migration.version}`;
+    if (applied.has(id)) {
+      continue;
+    }
+
+    const apply = async (client: DatabaseClient) => {
+      for (const sql of migration.up({ dialect, table })) {
+        await client.execute(sql);
+      }
+      await client.execute(
+        `INSERT INTO ${q(
+          migrationsTable
+        )} (id, applied_at) VALUES (${placeholders(dialect, 2)})`,
+        [id, toSqlTimestamp(dialect, Date.now())]
+      );
+    };
+
+    if (db.transaction) {
+      await db.transaction(apply);
+    } else {
+      await apply(db);
+    }
+    appliedNow.push(id);
+  }
+
+  return appliedNow;
+}
+
+/**
+ * CREATE TABLE (and indexes) that is a no-op when the table already exists
+ */
+function createTable(
+  dialect: SqlDialect,
+  table: string,
+  columns: string[],
+  indexedColumns: string[] = []
+): string[] {
+  const q = (name: string) => quoteIdentifier(dialect, name);
+  const indexName = (column: string) =>
+    q(`idx_${table.replace(/\W/g, "_")}_${column}`);
+
+  switch (dialect) {
+    case "mysql":
+      return [
+        `CREATE TABLE IF NOT EXISTS ${q(table)} (
+				${[
+          ...columns,
+          ...indexedColumns.map(
+            (column) => `INDEX ${indexName(column)} (${column})`
+          ),
+        ].join(",\n\t\t\t\t")}
+			)`,
+      ];
+    case "mssql":
+      return [
+        `IF OBJECT_ID(N'${table.replace(/'/g, "''")}', N'U') IS NULL
+			CREATE TABLE ${q(table)} (
+				${[
+          ...columns,
+          ...indexedColumns.map(
+            (column) => `INDEX ${indexName(column)} NONCLUSTERED (${column})`
+          ),
+        ].join(",\n\t\t\t\t")}
+			)`,
+      ];
+    default:
+      return [
+        `CREATE TABLE IF NOT EXISTS ${q(table)} (
+				${columns.join(",\n\t\t\t\t")}
+			)`,
+        ...indexedColumns.map(
+          (column) =>
+            `CREATE INDEX IF NOT EXISTS ${indexName(column)} ON ${q(
+              table
+            )} (${column})`
+        ),
+      ];
+  }
+}
+
+/**
+ * ALTER TABLE ... ADD, one statement per column (SQLite cannot add several at once)
+ * On PostgreSQL and SQL Server, columns that already exist are skipped
+ */
+function addColumns(
+  dialect: SqlDialect,
+  table: string,
+  columns: string[]
+): string[] {
+  const q = quoteIdentifier(dialect, table);
+
+  return columns.map((column) => {
+    switch (dialect) {
+      case "postgres":
+        return `ALTER TABLE ${q} ADD COLUMN IF NOT EXISTS ${column}`;
+      case "mssql": {
+        const name = column.split(" ")[0];
+        return `IF COL_LENGTH(N'${table.replace(
+          /'/g,
+          "''"
+        )}', N'${name}') IS NULL ALTER TABLE ${q} ADD ${column}`;
+      }
+      default:
+        return `ALTER TABLE ${q} ADD COLUMN ${column}`;
+    }
+  });
+}
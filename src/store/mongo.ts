@@ -0,0 +1,161 @@
+import type {
+  ChallengeRecord,
+  ChallengeStore,
+  Flow,
+  UserVerificationRequirement,
+} from "../types/index";
+
+/**
+ * MongoDB collection interface (compatible with the `mongodb` driver v6+ and in-memory substitutes)
+ */
+export interface MongoCollection<TSchema> {
+  insertOne(doc: TSchema): Promise<unknown>;
+  findOne(filter: Record<string, unknown>): Promise<TSchema | null>;
+  find(
+    filter: Record<string, unknown>,
+    options?: {
+      sort?: Record<string, 1 | -1>;
+      projection?: Record<string, 0 | 1>;
+    }
+  ): { toArray(): Promise<TSchema[]> };
+  updateOne(
+    filter: Record<string, unknown>,
+    update: Record<string, unknown>
+  ): Promise<unknown>;
+  replaceOne(
+    filter: Record<string, unknown>,
+    replacement: TSchema,
+    options?: { upsert?: boolean }
+  ): Promise<unknown>;
+  deleteOne(filter: Record<string, unknown>): Promise<unknown>;
+  deleteMany(filter: Record<string, unknown>): Promise<unknown>;
+  findOneAndDelete(filter: Record<string, unknown>): Promise<TSchema | null>;
+  createIndex(
+    keys: Record<string, 1 | -1>,
+    options?: { unique?: boolean; expireAfterSeconds?: number; name?: string }
+  ): Promise<string>;
+}
+
+/**
+ * Challenge document
+ */
+export interface MongoChallengeDocument {
+  _id: string;
+  userId: string;
+  flow: Flow;
+  challenge: string;
+  /** BSON date, so the TTL index can expire the document */
+  expiresAt: Date;
+  userVerification?: UserVerificationRequirement;
+  supportedAlgorithmIDs?: number[];
+}
+
+/**
+ * MongoDB-based challenge store
+ *
+ * Expired challenges are removed by a TTL index on `expiresAt` (see
+ * initializeIndexes). MongoDB's TTL monitor runs about once a minute, so
+ * expiry is also checked on read.
+ *
+ * @example
+ * ```typescript
+ * const store = new MongoStore(db.collection("passkey_challenges"));
+ * await store.initializeIndexes();
+ * ```
+ */
+export class MongoStore implements ChallengeStore {
+  constructor(
+    private readonly collection: MongoCollection<MongoChallengeDocument>,
+    /** Maximum outstanding challenges per user; the oldest are evicted (default: 5) */
+    private readonly maxChallengesPerUser = 5
+  ) {}
+
+  async set(record: ChallengeRecord): Promise<void> {
+    await this.collection.replaceOne(
+      { _id: record.id },
+      this.toDocument(record),
+      { upsert: true }
+    );
+
+    await this.evictOldest(record.userId);
+  }
+
+  async get(id: string): Promise<ChallengeRecord | null> {
+    const doc = await this.collection.findOne({ _id: id });
+    if (!doc) {
+      return null;
+    }
+
+    const record = this.toRecord(doc);
+    return Date.now() > record.expiresAt ? null : record;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.collection.deleteOne({ _id: id });
+  }
+
+  async consume(id: string): Promise<ChallengeRecord | null> {
+    // findOneAndDelete is atomic, so only one caller receives the document
+    const doc = await this.collection.findOneAndDelete({ _id: id });
+    if (!doc) {
+      return null;
+    }
+
+    const record = this.toRecord(doc);
+    return Date.now() > record.expiresAt ? null : record;
+  }
+
+  /**
+   * Create the TTL index on `expiresAt` and the per-user lookup index
+   * Safe to call on every startup
+   */
+  async initializeIndexes(): Promise<void> {
+    await this.collection.createIndex(
+      { expiresAt: 1 },
+      { expireAfterSeconds: 0 }
+    );
+    await this.collection.createIndex({ userId: 1, expiresAt: -1 });
+  }
+
+  /**
+   * Delete a user's oldest challenges beyond the per-user cap
+   */
+  private async evictOldest(userId: string): Promise<void> {
+    const docs = await this.collection
+      .find({ userId }, { sort: { expiresAt: -1 }, projection: { _id: 1 } })
+      .toArray();
+
+    const evicted = docs.slice(this.maxChallengesPerUser).map((doc) => doc._id);
+    if (evicted.length > 0) {
+      await this.collection.deleteMany({ _id: { $in: evicted } });
+    }
+  }
+
+  private toDocument(record: ChallengeRecord): MongoChallengeDocument {
+    return {
+      _id: record.id,
+      userId: record.userId,
+      flow: record.flow,
+      challenge: record.challenge,
+      expiresAt: new Date(record.expiresAt),
+      ...(record.userVerification && {
+        userVerification: record.userVerification,
+      }),
+      ...(record.supportedAlgorithmIDs && {
+        supportedAlgorithmIDs: record.supportedAlgorithmIDs,
+      }),
+    };
+  }
+
+  private toRecord(doc: MongoChallengeDocument): ChallengeRecord {
+    return {
+      id: doc._id,
+      userId: doc.userId,
+      flow: doc.flow,
+      challenge: doc.challenge,
+      expiresAt: new Date(doc.expiresAt).getTime(),
+      userVerification: doc.userVerification,
+      supportedAlgorithmIDs: doc.supportedAlgorithmIDs,
+    };
+  }
+}
@@ -0,0 +1,307 @@
+import type {
+  RateLimiter,
+  RateLimitResult,
+  RateLimitSubject,
+} from "../types/index";
+import type { RedisClient } from "./redis";
+
+/**
+ * Rate limiter options
+ */
+export interface RateLimiterOptions {
+  /** Attempts allowed per user within the window (default: 10) */
+  maxAttemptsPerUser?: number;
+  /** Attempts allowed per IP within the window (default: 30) */
+  maxAttemptsPerIp?: number;
+  /**
+   * Attempts allowed within the window, shared by every call with neither a user nor an IP,
+   * such as usernameless sign-ins without `ServerOptions.clientIp` (default: 100)
+   */
+  maxAnonymousAttempts?: number;
+  /** Sliding window length in seconds (default: 60) */
+  windowSeconds?: number;
+  /** Failed verifications before a lockout starts (default: 5) */
+  lockoutThreshold?: number;
+  /** First lockout in seconds; doubles with every further failure (default: 60) */
+  lockoutSeconds?: number;
+  /** Longest lockout in seconds; failures are also forgotten after this idle time (default: 3600) */
+  maxLockoutSeconds?: number;
+  /** Prefix for all keys (default: "passkey:ratelimit:") */
+  keyPrefix?: string;
+}
+
+/**
+ * Per-key state: attempt timestamps within the window and the lockout
+ */
+interface RateLimitState {
+  hits: number[];
+  failures: number;
+  lockedUntil?: number;
+}
+
+/**
+ * Redis-based rate limiter
+ *
+ * Attempts are counted in a sliding window per user and per IP. After
+ * `lockoutThreshold` failed verifications the user is locked out from that IP,
+ * and the IP as a whole, for twice as long with every further failure.
+ * Failures never lock a user out everywhere, so a stranger sending forged
+ * assertions cannot lock the owner out from their own IP. A success clears
+ * the user's failures from that IP but not the IP's, so one account cannot
+ * unlock an IP for others.
+ *
+ * Each check reads and rewrites a small JSON value, so concurrent attempts
+ * may occasionally be undercounted; the limits are approximate by design.
+ *
+ * @example
+ * ```typescript
+ * const rateLimiter = new RedisRateLimiter(redis, { maxAttemptsPerUser: 5 });
+ * ```
+ */
+export class RedisRateLimiter implements RateLimiter {
+  private readonly maxAttemptsPerUser: number;
+  private readonly maxAttemptsPerIp: number;
+  private readonly maxAnonymousAttempts: number;
+  private readonly windowMs: number;
+  private readonly lockoutThreshold: number;
+  private readonly lockoutMs: number;
+  private readonly maxLockoutMs: number;
+  private readonly keyPrefix: string;
+
+  constructor(
+    private readonly redis: RedisClient,
+    options: RateLimiterOptions = {}
+  ) {
+    this.maxAttemptsPerUser = options.maxAttemptsPerUser ?? 10;
+    this.maxAttemptsPerIp = options.maxAttemptsPerIp ?? 30;
+    this.maxAnonymousAttempts = options.maxAnonymousAttempts ?? 100;
+    this.windowMs = (options.windowSeconds ?? 60) * 1000;
+    this.lockoutThreshold = options.lockoutThreshold ?? 5;
+    this.lockoutMs = (options.lockoutSeconds ?? 60) * 1000;
+    this.maxLockoutMs = (options.maxLockoutSeconds ?? 3600) * 1000;
+    this.keyPrefix = options.keyPrefix ?? "passkey:ratelimit:";
+  }
+
+  async limit(subject: RateLimitSubject): Promise<RateLimitResult> {
+    const now = Date.now();
+    const limits = this.getLimits(subject);
+    const lockoutKeys = this.getLockoutKeys(subject).filter(
+      (key) => !limits.some((limit) => limit.key === key)
+    );
+    const entries = await Promise.all(
+      [
+        ...limits,
+        ...lockoutKeys.map((key) => ({ key, max: Infinity })),
+      ].map(async ({ key, max }) => ({
+        key,
+        max,
+        state: await this.read(key, now),
+      }))
+    );
+
+    let waitMs = 0;
+    for (const { max, state } of entries) {
+      if (state.lockedUntil && state.lockedUntil > now) {
+        waitMs = Math.max(waitMs, state.lockedUntil - now);
+      }
+      if (state.hits.length >= max) {
+        // Wait until enough attempts have left the window
+        const oldest = state.hits[state.hits.length - max];
+        waitMs = Math.max(waitMs, oldest + this.windowMs - now);
+      }
+    }
+
+    if (waitMs > 0) {
+      return { allowed: false, retryAfter: Math.ceil(waitMs / 1000) };
+    }
+
+    for (const { key, max, state } of entries) {
+      if (max !== Infinity) {
+        state.hits.push(now);
+        await this.write(key, state, now);
+      }
+    }
+    return { allowed: true };
+  }
+
+  async recordFailure(subject: RateLimitSubject): Promise<void> {
+    const now = Date.now();
+
+    for (const key of this.getLockoutKeys(subject)) {
+      const state = await this.read(key, now);
+      state.failures += 1;
+
+      const excess = state.failures - this.lockoutThreshold;
+      if (excess >= 0) {
+        state.lockedUntil =
+          now + Math.min(this.lockoutMs * 2 ** excess, this.maxLockoutMs);
+      }
+      await this.write(key, state, now);
+    }
+  }
+
+  async recordSuccess(subject: RateLimitSubject): Promise<void> {
+    if (!subject.userId) {
+      return;
+    }
+
+    const now = Date.now();
+    const key = this.getUserLockoutKey(subject.userId, subject.ip);
+    const state = await this.read(key, now);
+    if (state.failures > 0 || state.lockedUntil) {
+      await this.write(key, { hits: state.hits, failures: 0 }, now);
+    }
+  }
+
+  private getLimits(subject: RateLimitSubject): { key: string; max: number }[] {
+    if (!subject.userId && !subject.ip) {
+      // Nothing to tell callers apart, so they share one bucket; it is never
+      // locked out, or one attacker could lock out every anonymous caller
+      return [
+        {
+          key: `${this.keyPrefix}anonymous`,
+          max: this.maxAnonymousAttempts,
+        },
+      ];
+    }
+
+    return [
+      ...(subject.userId
+        ? [
+            {
+              key: this.getUserKey(subject.userId),
+              max: this.maxAttemptsPerUser,
+            },
+          ]
+        : []),
+      ...(subject.ip
+        ? [
+            {
+              key: this.getIpKey(subject.ip),
+              max: this.maxAttemptsPerIp,
+            },
+          ]
+        : []),
+    ];
+  }
+
+  /**
+   * Keys that collect failures: the user from this IP, and the IP itself
+   */
+  private getLockoutKeys(subject: RateLimitSubject): string[] {
+    return [
+      ...(subject.userId
+        ? [this.getUserLockoutKey(subject.userId, subject.ip)]
+        : []),
+      ...(subject.ip ? [this.getIpKey(subject.ip)] : []),
+    ];
+  }
+
+  private getUserKey(userId: string): string {
+    return `${this.keyPrefix}user:${userId}`;
+  }
+
+  private getIpKey(ip: string): string {
+    return `${this.keyPrefix}ip:${ip}`;
+  }
+
+  /**
+   * Without a known IP, all of the user's failures share one key
+   */
+  private getUserLockoutKey(userId: string, ip: string | undefined): string {
+    return `${this.keyPrefix}lockout:${userId}:${ip ?? "unknown"}`;
+  }
+
+  /**
+   * Read a key's state, dropping attempts that have left the window
+   */
+  private async read(key: string, now: number): Promise<RateLimitState> {
+    const value = await this.redis.get(key);
+
+    let state: RateLimitState = { hits: [], failures: 0 };
+    if (value) {
+      try {
+        state = JSON.parse(value);
+      } catch {
+        // Corrupt value, start over
+      }
+    }
+
+    state.hits = state.hits.filter((time) => time > now - this.windowMs);
+    return state;
+  }
+
+  private async write(
+    key: string,
+    state: RateLimitState,
+    now: number
+  ): Promise<void> {
+    // Keep the key while attempts are in the window, a lockout is running or failures are remembered
+    const ttlMs = Math.max(
+      this.windowMs,
+      state.lockedUntil ? state.lockedUntil - now : 0,
+      state.failures > 0 ? this.maxLockoutMs : 0
+    );
+
+    await this.redis.set(key, JSON.stringify(state), {
+      EX: Math.ceil(ttlMs / 1000),
+    });
+  }
+}
+
+/**
+ * In-memory rate limiter for development and single-instance deployments
+ * Same limits as RedisRateLimiter, with state held in the current process
+ */
+export class MemoryRateLimiter extends RedisRateLimiter {
+  constructor(options: RateLimiterOptions = {}) {
+    super(new MemoryRedisClient(), options);
+  }
+}
+
+/**
+ * Minimal in-process stand-in for the Redis commands the limiter uses
+ */
+class MemoryRedisClient implements RedisClient {
+  private readonly values = new Map<
+    string,
+    { value: string; expiresAt: number }
+  >();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.values.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.values.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(
+    key: string,
+    value: string,
+    options?: { EX?: number }
+  ): Promise<string | null> {
+    const now = Date.now();
+
+    // Sweep expired keys now and then so idle users and IPs do not accumulate
+    if (this.values.size >= 10_000) {
+      for (const [k, entry] of this.values) {
+        if (entry.expiresAt <= now) {
+          this.values.delete(k);
+        }
+      }
+    }
+
+    this.values.delete(key);
+    this.values.set(key, {
+      value,
+      expiresAt: options?.EX ? now + options.EX * 1000 : Infinity,
+    });
+    return "OK";
+  }
+
+  async del(key: string): Promise<number> {
+    return this.values.delete(key) ? 1 : 0;
+  }
+}
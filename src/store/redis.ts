@@ -1,4 +1,4 @@
-import type { ChallengeRecord, ChallengeStore, Flow } from "../types/index";
+import type { ChallengeRecord, ChallengeStore } from "../types/index";
 
 /**
  * Redis client interface (compatible with node-redis, ioredis, etc.)
@@ -11,6 +11,8 @@ export interface RedisClient {
     options?: { EX?: number }
   ): Promise<string | null>;
   del(key: string): Promise<number>;
+  getDel?(key: string): Promise<string | null>; // node-redis v4+ (Redis 6.2+)
+  getdel?(key: string): Promise<string | null>; // ioredis (Redis 6.2+)
   isOpen?: boolean; // For node-redis v4+
   ping?(): Promise<string>; // For connection testing
 }
@@ -30,7 +32,9 @@ export class RedisStore implements ChallengeStore {
   constructor(
     private readonly redis: RedisClient,
     /** Default TTL in seconds (default: 300 = 5 minutes) */
-    private readonly defaultTTL = 300
+    private readonly defaultTTL = 300,
+    /** Maximum outstanding challenges per user; the oldest are evicted (default: 5) */
+    private readonly maxChallengesPerUser = 5
   ) {}
 
   private async ensureConnection(): Promise<void> {
@@ -44,7 +48,7 @@ export class RedisStore implements ChallengeStore {
   async set(record: ChallengeRecord): Promise<void> {
     await this.ensureConnection();
 
-    const key = this.getChallengeKey(record.userId, record.flow);
+    const key = this.getChallengeKey(record.id);
     const value = JSON.stringify(record);
     const ttlSeconds = Math.ceil((record.expiresAt - Date.now()) / 1000);
 
@@ -53,6 +57,7 @@ export class RedisStore implements ChallengeStore {
 
     try {
       await this.redis.set(key, value, { EX: finalTTL });
+      await this.trackChallenge(record);
     } catch (error) {
       throw new Error(
         `Failed to store challenge in Redis: ${
@@ -63,10 +68,10 @@ export class RedisStore implements ChallengeStore {
     }
   }
 
-  async get(userId: string, flow: Flow): Promise<ChallengeRecord | null> {
+  async get(id: string): Promise<ChallengeRecord | null> {
     await this.ensureConnection();
 
-    const key = this.getChallengeKey(userId, flow);
+    const key = this.getChallengeKey(id);
 
     try {
       const value = await this.redis.get(key);
@@ -98,10 +103,10 @@ export class RedisStore implements ChallengeStore {
     }
   }
 
-  async delete(userId: string, flow: Flow): Promise<void> {
+  async delete(id: string): Promise<void> {
     await this.ensureConnection();
 
-    const key = this.getChallengeKey(userId, flow);
+    const key = this.getChallengeKey(id);
 
     try {
       await this.redis.del(key);
@@ -114,7 +119,87 @@ export class RedisStore implements ChallengeStore {
     }
   }
 
-  private getChallengeKey(userId: string, flow: Flow): string {
-    return `passkey:challenge:${userId}:${flow}`;
+  async consume(id: string): Promise<ChallengeRecord | null> {
+    await this.ensureConnection();
+
+    const key = this.getChallengeKey(id);
+
+    try {
+      let value: string | null;
+      if (this.redis.getDel) {
+        value = await this.redis.getDel(key);
+      } else if (this.redis.getdel) {
+        value = await this.redis.getdel(key);
+      } else {
+        // Without GETDEL, only the caller whose DEL removed the key may use it
+        value = await this.redis.get(key);
+        if (value && (await this.redis.del(key)) === 0) {
+          value = null;
+        }
+      }
+
+      if (!value) {
+        return null;
+      }
+
+      const record: ChallengeRecord = JSON.parse(value);
+
+      // Double-check expiration (Redis TTL might not be exact)
+      return Date.now() > record.expiresAt ? null : record;
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        // Invalid JSON, already deleted
+        return null;
+      }
+      throw new Error(
+        `Failed to consume challenge from Redis: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Record a challenge in its user's index and evict the oldest past the cap
+   * The index is best-effort: challenges expire on their own TTL regardless
+   */
+  private async trackChallenge(record: ChallengeRecord): Promise<void> {
+    const indexKey = this.getUserIndexKey(record.userId);
+    const now = Date.now();
+
+    let entries: { id: string; expiresAt: number }[] = [];
+    try {
+      entries = JSON.parse((await this.redis.get(indexKey)) ?? "[]");
+    } catch {
+      // Corrupt index, start over
+    }
+
+    entries = entries
+      .filter((entry) => entry.expiresAt > now && entry.id !== record.id)
+      .concat({ id: record.id, expiresAt: record.expiresAt })
+      .sort((a, b) => a.expiresAt - b.expiresAt);
+
+    const evicted = entries.slice(
+      0,
+      Math.max(entries.length - this.maxChallengesPerUser, 0)
+    );
+    for (const entry of evicted) {
+      await this.redis.del(this.getChallengeKey(entry.id));
+    }
+
+    await this.redis.set(
+      indexKey,
+      JSON.stringify(entries.slice(evicted.length)),
+      // No challenge outlives the default TTL, so neither does the index
+      { EX: this.defaultTTL }
+    );
+  }
+
+  private getChallengeKey(id: string): string {
+    return `passkey:challenge:${id}`;
+  }
+
+  private getUserIndexKey(userId: string): string {
+    return `passkey:challenges:${userId}`;
   }
 }
@@ -0,0 +1,186 @@
+/**
+ * SQL dialect helpers shared by the SQL-backed stores and the migration runner
+ */
+
+/**
+ * Supported SQL dialects
+ */
+export type SqlDialect = "postgres" | "mysql" | "sqlite" | "mssql";
+
+/**
+ * Column types used by the migrations, per dialect
+ */
+export const COLUMN_TYPES: Record<
+  SqlDialect,
+  {
+    key: string;
+    text: string;
+    longText: string;
+    credentialId: string;
+    integer: string;
+    boolean: string;
+    json: string;
+    timestamp: string;
+    false: string;
+    now: string;
+  }
+> = {
+  postgres: {
+    key: "TEXT",
+    text: "TEXT",
+    longText: "TEXT",
+    credentialId: "TEXT",
+    integer: "BIGINT",
+    boolean: "BOOLEAN",
+    json: "JSONB",
+    timestamp: "TIMESTAMPTZ",
+    false: "FALSE",
+    now: "CURRENT_TIMESTAMP",
+  },
+  mysql: {
+    key: "VARCHAR(255)",
+    text: "VARCHAR(255)",
+    longText: "TEXT",
+    // Credential IDs are base64url (ASCII) and up to 1366 characters long
+    credentialId: "VARCHAR(1366) CHARACTER SET ascii",
+    integer: "BIGINT",
+    boolean: "BOOLEAN",
+    json: "JSON",
+    timestamp: "DATETIME(3)",
+    false: "FALSE",
+    now: "CURRENT_TIMESTAMP(3)",
+  },
+  sqlite: {
+    key: "TEXT",
+    text: "TEXT",
+    longText: "TEXT",
+    credentialId: "TEXT",
+    integer: "INTEGER",
+    boolean: "INTEGER",
+    json: "TEXT",
+    timestamp: "TIMESTAMP",
+    false: "0",
+    now: "CURRENT_TIMESTAMP",
+  },
+  mssql: {
+    key: "NVARCHAR(255)",
+    text: "NVARCHAR(255)",
+    longText: "NVARCHAR(MAX)",
+    credentialId: "VARCHAR(1366)",
+    integer: "BIGINT",
+    boolean: "BIT",
+    json: "NVARCHAR(MAX)",
+    timestamp: "DATETIME2(3)",
+    false: "0",
+    now: "SYSUTCDATETIME()",
+  },
+};
+
+/**
+ * Quote an identifier, including each part of a schema-qualified name
+ */
+export function quoteIdentifier(dialect: SqlDialect, name: string): string {
+  return name
+    .split(".")
+    .map((part) => {
+      switch (dialect) {
+        case "mysql":
+          return `\`${part.replace(/`/g, "``")}\``;
+        case "mssql":
+          return `[${part.replace(/]/g, "]]")}]`;
+        default:
+          return `"${part.replace(/"/g, '""')}"`;
+      }
+    })
+    .join(".");
+}
+
+/**
+ * Positional parameter placeholder (1-based)
+ */
+export function placeholder(dialect: SqlDialect, index: number): string {
+  switch (dialect) {
+    case "postgres":
+      return `$${index}`;
+    case "mssql":
+      return `@p${index}`;
+    default:
+      return "?";
+  }
+}
+
+/**
+ * Comma-separated placeholders for `count` parameters, starting at `start`
+ */
+export function placeholders(
+  dialect: SqlDialect,
+  count: number,
+  start = 1
+): string {
+  return Array.from({ length: count }, (_, i) =>
+    placeholder(dialect, start + i)
+  ).join(", ");
+}
+
+/**
+ * INSERT that updates `updateColumns` when a row with the same `key` exists
+ * Parameters are bound in the order of `columns`
+ */
+export function upsertSql(
+  dialect: SqlDialect,
+  table: string,
+  columns: string[],
+  key: string,
+  updateColumns: string[]
+): string {
+  const q = (name: string) => quoteIdentifier(dialect, name);
+  const columnList = columns.map(q).join(", ");
+  const values = placeholders(dialect, columns.length);
+
+  switch (dialect) {
+    case "mysql":
+      return `INSERT INTO ${q(table)} (${columnList}) VALUES (${values})
+			ON DUPLICATE KEY UPDATE ${updateColumns
+        .map((column) => `${q(column)} = VALUES(${q(column)})`)
+        .join(", ")}`;
+    case "mssql":
+      return `MERGE INTO ${q(table)} WITH (HOLDLOCK) AS target
+			USING (SELECT ${columns
+        .map((column, i) => `${placeholder(dialect, i + 1)} AS ${q(column)}`)
+        .join(", ")}) AS source
+			ON target.${q(key)} = source.${q(key)}
+			WHEN MATCHED THEN UPDATE SET ${updateColumns
+        .map((column) => `${q(column)} = source.${q(column)}`)
+        .join(", ")}
+			WHEN NOT MATCHED THEN INSERT (${columnList}) VALUES (${columns
+        .map((column) => `source.${q(column)}`)
+        .join(", ")});`;
+    default:
+      return `INSERT INTO ${q(table)} (${columnList}) VALUES (${values})
+			ON CONFLICT (${q(key)}) DO UPDATE SET ${updateColumns
+        .map((column) => `${q(column)} = excluded.${q(column)}`)
+        .join(", ")}`;
+  }
+}
+
+/**
+ * Timestamp parameter value
+ * SQLite stores ISO strings, which sort correctly as text; the other drivers bind Date objects
+ */
+export function toSqlTimestamp(
+  dialect: SqlDialect,
+  timestamp: number
+): string | Date {
+  const date = new Date(timestamp);
+  return dialect === "sqlite" ? date.toISOString() : date;
+}
+
+/**
+ * Boolean parameter value (SQLite has no boolean type)
+ */
+export function toSqlBoolean(
+  dialect: SqlDialect,
+  value: boolean
+): boolean | number {
+  return dialect === "sqlite" ? Number(value) : value;
+}
@@ -8,7 +8,9 @@ export class SupabaseStore implements ChallengeStore {
   constructor(
     private readonly supabase: any, // Compatible with @supabase/supabase-js
     /** Table name for challenges (default: "passkey_challenges") */
-    private readonly tableName = "passkey_challenges"
+    private readonly tableName = "passkey_challenges",
+    /** Maximum outstanding challenges per user; the oldest are evicted (default: 5) */
+    private readonly maxChallengesPerUser = 5
   ) {}
 
   async set(record: ChallengeRecord): Promise<void> {
@@ -18,20 +20,22 @@ export class SupabaseStore implements ChallengeStore {
       flow: record.flow,
       challenge: record.challenge,
       expires_at: new Date(record.expiresAt).toISOString(),
+      user_verification: record.userVerification ?? null,
+      supported_algorithm_ids: record.supportedAlgorithmIDs ?? null,
     });
 
     if (error) {
       throw new Error(`Failed to store challenge: ${error.message}`);
     }
-  }
 
-  async get(userId: string, flow: Flow): Promise<ChallengeRecord | null> {
-    const challengeId = `${userId}:${flow}`;
+    await this.evictOldest(record.userId);
+  }
 
+  async get(id: string): Promise<ChallengeRecord | null> {
     const { data, error } = await this.supabase
       .from(this.tableName)
       .select("*")
-      .eq("id", challengeId)
+      .eq("id", id)
       .single();
 
     if (error) {
@@ -50,7 +54,7 @@ export class SupabaseStore implements ChallengeStore {
     const expiresAt = new Date(data.expires_at).getTime();
     if (Date.now() > expiresAt) {
       // Clean up expired challenge
-      await this.delete(userId, flow);
+      await this.delete(id);
       return null;
     }
 
@@ -60,22 +64,55 @@ export class SupabaseStore implements ChallengeStore {
       flow: data.flow as Flow,
       challenge: data.challenge,
       expiresAt,
+      userVerification: data.user_verification ?? undefined,
+      supportedAlgorithmIDs: data.supported_algorithm_ids ?? undefined,
     };
   }
 
-  async delete(userId: string, flow: Flow): Promise<void> {
-    const challengeId = `${userId}:${flow}`;
-
+  async delete(id: string): Promise<void> {
     const { error } = await this.supabase
       .from(this.tableName)
       .delete()
-      .eq("id", challengeId);
+      .eq("id", id);
 
     if (error) {
       throw new Error(`Failed to delete challenge: ${error.message}`);
     }
   }
 
+  async consume(id: string): Promise<ChallengeRecord | null> {
+    // DELETE ... RETURNING: only one concurrent caller gets the row back
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .delete()
+      .eq("id", id)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to consume challenge: ${error.message}`);
+    }
+
+    const row = data?.[0];
+    if (!row) {
+      return null;
+    }
+
+    const expiresAt = new Date(row.expires_at).getTime();
+    if (Date.now() > expiresAt) {
+      return null;
+    }
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      flow: row.flow as Flow,
+      challenge: row.challenge,
+      expiresAt,
+      userVerification: row.user_verification ?? undefined,
+      supportedAlgorithmIDs: row.supported_algorithm_ids ?? undefined,
+    };
+  }
+
   /**
    * Clean up all expired challenges (optional maintenance method)
    */
@@ -91,4 +128,35 @@ export class SupabaseStore implements ChallengeStore {
       throw new Error(`Failed to cleanup expired challenges: ${error.message}`);
     }
   }
+
+  /**
+   * Delete a user's oldest challenges beyond the per-user cap
+   */
+  private async evictOldest(userId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .select("id")
+      .eq("user_id", userId)
+      .order("expires_at", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list challenges: ${error.message}`);
+    }
+
+    const evicted = (data ?? [])
+      .slice(this.maxChallengesPerUser)
+      .map((row: { id: string }) => row.id);
+    if (evicted.length === 0) {
+      return;
+    }
+
+    const { error: deleteError } = await this.supabase
+      .from(this.tableName)
+      .delete()
+      .in("id", evicted);
+
+    if (deleteError) {
+      throw new Error(`Failed to evict challenges: ${deleteError.message}`);
+    }
+  }
 }
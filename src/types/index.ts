@@ -2,6 +2,8 @@
  * Core types and interfaces for the next-passkey library
  */
 
+import type { MetadataBLOBPayloadEntry } from "@simplewebauthn/server";
+
 /**
  * WebAuthn flow types
  */
@@ -12,6 +14,49 @@ export type Flow = "registration" | "authentication";
  */
 export type AuthenticatorAttachment = "platform" | "cross-platform";
 
+/**
+ * User verification requirement for a WebAuthn ceremony
+ */
+export type UserVerificationRequirement =
+  | "required"
+  | "preferred"
+  | "discouraged";
+
+/**
+ * Discoverable (resident) credential requirement for registration
+ */
+export type ResidentKeyRequirement = "required" | "preferred" | "discouraged";
+
+/**
+ * WebAuthn Level 3 hint for the browser's authenticator UI, in order of preference
+ */
+export type PublicKeyCredentialHint =
+  | "client-device"
+  | "security-key"
+  | "hybrid";
+
+/**
+ * How startAuthentication offers a user's passkeys to the browser
+ * - "always-list": list every active passkey in `allowCredentials`
+ * - "discoverable-only": send no `allowCredentials`; the authenticator offers its own passkeys
+ * - "platform-first": list every passkey, this device's first, with hints for the kinds the user has
+ */
+export type CredentialSelection =
+  | "always-list"
+  | "discoverable-only"
+  | "platform-first";
+
+/**
+ * Attestation conveyance preference for registration
+ */
+export type AttestationConveyance = "none" | "indirect" | "direct";
+
+/**
+ * Passkey lifecycle status
+ * Only active passkeys can authenticate; revoked passkeys cannot be re-enabled
+ */
+export type PasskeyStatus = "active" | "disabled" | "revoked";
+
 /**
  * Passkey device information for better user experience
  */
@@ -55,14 +100,54 @@ export type StoredCredential = {
   backupEligible?: boolean;
   /** Whether this credential is currently backed up */
   backupState?: boolean;
+  /** Authenticator AAGUID reported at registration */
+  aaguid?: string;
+  /** Attestation statement format (e.g., "none", "packed", "apple") */
+  attestationFormat?: string;
   /** Last time this credential was used for authentication */
   lastUsedAt?: string;
+  /** Device and browser used for the most recent authentication */
+  lastUsedDeviceInfo?: PasskeyDeviceInfo;
+  /** Whether the signature counter has gone backwards (possible cloned authenticator) */
+  suspectedClone?: boolean;
+  /** Lifecycle status (missing means "active") */
+  status?: PasskeyStatus;
+  /** ISO string of when the passkey was revoked */
+  revokedAt?: string;
+  /** Why the passkey was revoked ("deleted" for soft-deleted passkeys) */
+  revokedReason?: string;
   /** ISO string of creation timestamp */
   createdAt: string;
   /** ISO string of last update timestamp */
   updatedAt?: string;
 };
 
+/**
+ * Usage metadata recorded after a successful authentication
+ */
+export interface PasskeyUsageUpdate {
+  /** Authenticator counter value after this authentication */
+  counter: number;
+  /** ISO string of the authentication time */
+  lastUsedAt: string;
+  /** Backup state reported by the authenticator */
+  backupState: boolean;
+  /** Device and browser used for this authentication */
+  lastUsedDeviceInfo?: PasskeyDeviceInfo;
+}
+
+/**
+ * Lifecycle status change for a credential
+ * Adapters clear `revokedAt` and `revokedReason` when they are not set
+ */
+export interface PasskeyStatusUpdate {
+  status: PasskeyStatus;
+  /** ISO string of the revocation time (revoked only) */
+  revokedAt?: string;
+  /** Reason for the revocation (revoked only) */
+  revokedReason?: string;
+}
+
 /**
  * Adapter interface for credential persistence
  * Implementations handle storing and retrieving passkey credentials
@@ -91,7 +176,28 @@ export interface PasskeyAdapter {
   updateCounter(id: string, counter: number): Promise<void>;
 
   /**
-   * Delete a passkey credential
+   * Record usage metadata after a successful authentication
+   * Updates the counter, lastUsedAt, backupState and last-used device info
+   */
+  updateUsage(id: string, usage: PasskeyUsageUpdate): Promise<void>;
+
+  /**
+   * Set the user-friendly nickname stored in a credential's device info
+   */
+  renamePasskey(id: string, nickname: string): Promise<void>;
+
+  /**
+   * Set or clear the suspected-clone flag for a credential
+   */
+  setSuspectedClone(id: string, suspectedClone: boolean): Promise<void>;
+
+  /**
+   * Set a credential's lifecycle status and revocation details
+   */
+  setPasskeyStatus(id: string, update: PasskeyStatusUpdate): Promise<void>;
+
+  /**
+   * Permanently delete a passkey credential
    */
   deletePasskey(id: string): Promise<void>;
 }
@@ -101,7 +207,7 @@ export interface PasskeyAdapter {
  * Stored temporarily during registration/authentication flows
  */
 export interface ChallengeRecord {
-  /** Unique challenge ID, typically `${userId}:${flow}` */
+  /** Random challenge ID, returned to the client as `challengeId` */
   id: string;
   /** User ID this challenge belongs to */
   userId: string;
@@ -111,6 +217,10 @@ export interface ChallengeRecord {
   challenge: string;
   /** Expiration timestamp in epoch milliseconds */
   expiresAt: number;
+  /** User verification requested with the challenge; "required" is enforced on finish */
+  userVerification?: UserVerificationRequirement;
+  /** COSE algorithms offered at registration start; enforced on finish */
+  supportedAlgorithmIDs?: number[];
 }
 
 /**
@@ -120,18 +230,43 @@ export interface ChallengeRecord {
 export interface ChallengeStore {
   /**
    * Store a challenge record
+   * A user may have several outstanding challenges; implementations evict the
+   * oldest ones once a per-user cap is reached
    */
   set(record: ChallengeRecord): Promise<void>;
 
   /**
-   * Retrieve a challenge record by user ID and flow
+   * Retrieve a challenge record by challenge ID
    */
-  get(userId: string, flow: Flow): Promise<ChallengeRecord | null>;
+  get(id: string): Promise<ChallengeRecord | null>;
 
   /**
-   * Delete a challenge record by user ID and flow
+   * Delete a challenge record by challenge ID
    */
-  delete(userId: string, flow: Flow): Promise<void>;
+  delete(id: string): Promise<void>;
+
+  /**
+   * Atomically retrieve and delete a challenge record by challenge ID
+   * Concurrent calls for the same challenge must return it to at most one caller
+   */
+  consume(id: string): Promise<ChallengeRecord | null>;
+
+  /**
+   * Return a store scoped to one request (optional)
+   * For stores that keep challenges in the request and response, such as
+   * CookieChallengeStore. The route handlers call this for every ceremony request.
+   */
+  bind?(context: ChallengeStoreContext): ChallengeStore;
+}
+
+/**
+ * Request context for request-scoped challenge stores
+ */
+export interface ChallengeStoreContext {
+  /** Incoming request */
+  request: Request;
+  /** Headers to add to the response (e.g., Set-Cookie) */
+  responseHeaders: Headers;
 }
 
 /**
@@ -146,6 +281,318 @@ export interface RPConfig {
   expectedOrigin: string | string[];
 }
 
+/**
+ * Session minted after a successful passkey authentication
+ */
+export interface PasskeySession {
+  /** User ID the session belongs to */
+  userId: string;
+  /** Credential ID used to authenticate */
+  credentialId: string;
+  /** Authentication time in epoch milliseconds */
+  authenticatedAt: number;
+  /** Expiration timestamp in epoch milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * Session returned from a successful authentication, with its signed token
+ */
+export interface IssuedSession extends PasskeySession {
+  /** Signed session token (cookie value or bearer token) */
+  token: string;
+}
+
+/**
+ * Session issuer interface for minting and verifying session tokens
+ * Implementations handle token format, signing and optional revocation
+ */
+export interface SessionIssuer {
+  /**
+   * Issue a signed token for a session
+   */
+  issue(session: PasskeySession): Promise<string>;
+
+  /**
+   * Verify a token and return its session, or null if invalid or expired
+   */
+  verify(token: string): Promise<PasskeySession | null>;
+
+  /**
+   * Revoke a token (optional, for stateful issuers)
+   */
+  revoke?(token: string): Promise<void>;
+}
+
+/**
+ * Session cookie attributes
+ */
+export interface SessionCookieOptions {
+  /** Cookie name (default: "passkey_session") */
+  name?: string;
+  /** Cookie path (default: "/") */
+  path?: string;
+  /** Cookie domain */
+  domain?: string;
+  /** Send only over HTTPS (default: true) */
+  secure?: boolean;
+  /** SameSite attribute (default: "lax") */
+  sameSite?: "strict" | "lax" | "none";
+}
+
+/**
+ * Session subsystem configuration
+ */
+export interface SessionOptions {
+  /** Issuer used to sign and verify session tokens */
+  issuer: SessionIssuer;
+  /** Session lifetime in seconds (default: 604800 = 7 days) */
+  maxAge?: number;
+  /**
+   * How the route handlers deliver the token: an HttpOnly cookie (default) or
+   * a `token` field in the response body for use as a bearer token
+   */
+  transport?: "cookie" | "token";
+  /** Session cookie attributes */
+  cookie?: SessionCookieOptions;
+}
+
+/**
+ * Action taken when an authenticator's signature counter goes backwards
+ * - "reject": reject the authentication and flag the credential
+ * - "allow-and-flag": allow the authentication but flag the credential
+ * - "disable": flag the credential and refuse it for all later authentications
+ */
+export type CounterRegressionPolicy = "reject" | "allow-and-flag" | "disable";
+
+/**
+ * Security event reported by the server flows
+ */
+export interface SecurityEvent {
+  /** Event type */
+  type: "counter_regression";
+  /** User ID the credential belongs to */
+  userId: string;
+  /** Credential ID involved */
+  credentialId: string;
+  /** Counter value stored before this authentication */
+  storedCounter: number;
+  /** Counter value reported by the authenticator */
+  receivedCounter: number;
+  /** Policy applied to the credential */
+  action: CounterRegressionPolicy;
+  /** ISO string of when the event occurred */
+  timestamp: string;
+}
+
+/**
+ * Account enumeration protection options
+ */
+export interface AntiEnumerationOptions {
+  /** Secret the decoy credential IDs are derived from (at least 32 characters) */
+  secret: string;
+  /** Decoy credentials returned per unknown user (default: 1) */
+  decoyCount?: number;
+}
+
+/**
+ * Security policy options
+ */
+export interface SecurityOptions {
+  /** Policy for signature counter regressions (default: "reject") */
+  counterRegressionPolicy?: CounterRegressionPolicy;
+  /** Called for every security event; errors thrown here are ignored */
+  onSecurityEvent?: (event: SecurityEvent) => void | Promise<void>;
+  /**
+   * Hide which users have passkeys: startAuthentication answers users without
+   * active passkeys with stable decoy credentials, and the attempt fails at
+   * finishAuthentication like a wrong passkey would
+   */
+  antiEnumeration?: AntiEnumerationOptions;
+}
+
+/**
+ * Passkey event types reported to `ServerOptions.onEvent`
+ */
+export type PasskeyEventType =
+  | "registration_started"
+  | "registration_succeeded"
+  | "registration_failed"
+  | "authentication_succeeded"
+  | "authentication_failed"
+  | "passkey_deleted"
+  | "passkey_disabled"
+  | "passkey_enabled"
+  | "passkey_restored"
+  | "passkey_revoked"
+  | "counter_anomaly";
+
+/**
+ * Request details attached to passkey events
+ */
+export interface PasskeyEventContext {
+  /** Client IP address, as resolved by `ServerOptions.clientIp` */
+  ip?: string;
+  /** Client User-Agent header */
+  userAgent?: string;
+}
+
+/**
+ * Passkey event reported by the server flows
+ */
+export interface PasskeyEvent extends PasskeyEventContext {
+  /** Event type */
+  type: PasskeyEventType;
+  /** User ID involved (missing when a usernameless sign-in fails before the user is known) */
+  userId?: string;
+  /** Credential ID involved, if any */
+  credentialId?: string;
+  /** Error code of a failed ceremony */
+  errorCode?: ErrorCode;
+  /** Error message of a failed ceremony */
+  errorMessage?: string;
+  /** Event-specific data, e.g. the counters of a counter anomaly */
+  details?: Record<string, unknown>;
+  /** ISO string of when the event occurred */
+  timestamp: string;
+}
+
+/**
+ * Stored audit log entry
+ */
+export interface AuditLogEntry extends PasskeyEvent {
+  /** Entry ID */
+  id: string;
+}
+
+/**
+ * Audit log query filters; all are optional and combined with AND
+ */
+export interface AuditLogQuery {
+  userId?: string;
+  credentialId?: string;
+  /** Only these event types */
+  types?: PasskeyEventType[];
+  /** ISO string; only events at or after this time */
+  since?: string;
+  /** ISO string; only events before this time */
+  until?: string;
+  /** Maximum number of entries (default: 100) */
+  limit?: number;
+}
+
+/**
+ * Audit log storage for passkey events
+ */
+export interface AuditLogStore {
+  /**
+   * Record an event
+   */
+  append(event: PasskeyEvent): Promise<void>;
+
+  /**
+   * Find events, newest first
+   */
+  query(query?: AuditLogQuery): Promise<AuditLogEntry[]>;
+}
+
+/**
+ * Who a ceremony attempt is counted against
+ */
+export interface RateLimitSubject {
+  /** User ID, when known */
+  userId?: string;
+  /** Client IP address, when known */
+  ip?: string;
+}
+
+/**
+ * Result of a rate limit check
+ */
+export interface RateLimitResult {
+  /** Whether the attempt may proceed */
+  allowed: boolean;
+  /** Seconds to wait before trying again, when not allowed */
+  retryAfter?: number;
+}
+
+/**
+ * Rate limiter for the registration and authentication ceremonies
+ */
+export interface RateLimiter {
+  /**
+   * Count an attempt, unless the subject is over its limit or locked out
+   */
+  limit(subject: RateLimitSubject): Promise<RateLimitResult>;
+
+  /**
+   * Record a failed verification towards a lockout
+   * Lock the user out per IP, never everywhere, so forged assertions cannot lock out the owner
+   */
+  recordFailure(subject: RateLimitSubject): Promise<void>;
+
+  /**
+   * Record a successful verification, clearing the user's failures
+   */
+  recordSuccess(subject: RateLimitSubject): Promise<void>;
+}
+
+/**
+ * FIDO certification levels, lowest to highest
+ */
+export type CertificationLevel =
+  | "FIDO_CERTIFIED_L1"
+  | "FIDO_CERTIFIED_L1plus"
+  | "FIDO_CERTIFIED_L2"
+  | "FIDO_CERTIFIED_L2plus"
+  | "FIDO_CERTIFIED_L3"
+  | "FIDO_CERTIFIED_L3plus";
+
+/**
+ * Authenticator entry from a FIDO Metadata Service (MDS3) BLOB
+ */
+export type AuthenticatorMetadataEntry = MetadataBLOBPayloadEntry;
+
+/**
+ * Registration policy evaluated by `finishRegistration`
+ * Violations are rejected with `ErrorCodes.AUTHENTICATOR_NOT_ALLOWED`
+ */
+export interface RegistrationPolicy {
+  /** Only accept authenticators with these AAGUIDs; implies `requireAttestation` */
+  allowedAaguids?: string[];
+  /** Reject authenticators with these AAGUIDs */
+  deniedAaguids?: string[];
+  /**
+   * Require a certificate-based attestation that chains to a trusted root
+   * Requests "direct" attestation at registration start
+   */
+  requireAttestation?: boolean;
+  /** Extra trusted root certificates (PEM), tried for every attestation format */
+  trustedRootCertificates?: string[];
+  /**
+   * FIDO MDS entries (see `loadMetadataBlob`); their attestation roots are trusted
+   * for the matching AAGUID and their status reports are checked
+   */
+  metadata?: AuthenticatorMetadataEntry[];
+  /** Minimum FIDO certification level, checked against `metadata`; implies `requireAttestation` */
+  minimumCertificationLevel?: CertificationLevel;
+}
+
+/**
+ * How the client IP is read for events and per-IP rate limits
+ * Forwarding headers are client-controlled unless a proxy you trust sets them,
+ * so they are ignored by default
+ */
+export interface ClientIpOptions {
+  /**
+   * Number of trusted proxies in front of the app that append to `X-Forwarded-For`
+   * The IP is the entry that many hops from the right (1 = the rightmost)
+   */
+  trustedProxies?: number;
+  /** Resolve the IP yourself, e.g. from a header your platform sets; takes precedence */
+  resolve?: (request: Request) => string | undefined;
+}
+
 /**
  * Server function options
  */
@@ -156,28 +603,140 @@ export interface ServerOptions {
   store: ChallengeStore;
   /** Relying party configuration */
   rpConfig: RPConfig;
+  /**
+   * Resolve the signed-in user's ID from the incoming request (e.g. from your session)
+   * Return null when the request is not authenticated. The route handlers use this
+   * for registration, listing and deletion instead of trusting a client-sent userId.
+   * Falls back to the passkey session when `session` is configured
+   */
+  getUserId?: (request: Request) => string | null | Promise<string | null>;
+  /** Optional session issued after successful authentication */
+  session?: SessionOptions;
+  /** Security policies and event callback */
+  security?: SecurityOptions;
+  /** Attestation conveyance requested at registration (default: "none") */
+  attestation?: AttestationConveyance;
+  /** Restrict which authenticators may register */
+  registrationPolicy?: RegistrationPolicy;
+  /** Default authenticator selection, algorithms and hints for registration */
+  registration?: RegistrationDefaults;
+  /** Default user verification for sign-in; the route handlers never take it from the request */
+  authentication?: AuthenticationDefaults;
+  /** Called for every passkey event; errors thrown here are ignored */
+  onEvent?: (event: PasskeyEvent) => void | Promise<void>;
+  /** Record every passkey event; write failures are ignored so they never block sign-in */
+  auditLog?: AuditLogStore;
+  /** How createPasskeyHandlers reads the client IP (default: not read) */
+  clientIp?: ClientIpOptions;
+  /**
+   * Request details attached to events and used for per-IP rate limits
+   * createPasskeyHandlers sets this per request; see `getEventContext`
+   */
+  eventContext?: PasskeyEventContext;
+  /** Limit ceremony attempts per user and IP, and lock out repeated failures */
+  rateLimiter?: RateLimiter;
+  /** Default passkey selection strategy for startAuthentication (default: "always-list") */
+  credentialSelection?: CredentialSelection;
+}
+
+/**
+ * Authenticator requirements sent at registration
+ */
+export interface AuthenticatorSelectionOptions {
+  /** Only offer "platform" (this device) or "cross-platform" (security keys, phones) authenticators; unset offers both */
+  authenticatorAttachment?: AuthenticatorAttachment;
+  /** Whether the passkey must be discoverable; "required" ensures it works for usernameless sign-in */
+  residentKey?: ResidentKeyRequirement;
+  /** User verification requirement; "required" is enforced on finish */
+  userVerification?: UserVerificationRequirement;
+}
+
+/**
+ * Named defaults for registration
+ * - "passkey": any authenticator, discoverable and user-verified where supported
+ * - "security-key": roaming security keys, without using up discoverable credential slots
+ */
+export type RegistrationPreset = "passkey" | "security-key";
+
+/**
+ * Registration defaults, set server-wide with `ServerOptions.registration`
+ * or per call in `RegistrationStartOptions`
+ */
+export interface RegistrationDefaults {
+  /** Preset the other fields refine (default: "passkey") */
+  preset?: RegistrationPreset;
+  /** Authenticator requirements; fields left unset come from the preset */
+  authenticatorSelection?: AuthenticatorSelectionOptions;
+  /** COSE algorithms accepted, in order of preference (default: [-8, -7, -257] = EdDSA, ES256, RS256) */
+  supportedAlgorithmIDs?: number[];
+  /** Hints sent to the browser as given, instead of the preset's */
+  hints?: PublicKeyCredentialHint[];
 }
 
 /**
  * Registration start options
  */
-export interface RegistrationStartOptions {
+export interface RegistrationStartOptions extends RegistrationDefaults {
   /** User display name for the credential */
   userDisplayName?: string;
   /** User name/identifier for the credential */
   userName?: string;
-  /** Challenge timeout in milliseconds (default: 300000 = 5 minutes) */
+  /** Challenge timeout in milliseconds (default: 300000 = 5 minutes, at most 600000) */
   timeout?: number;
 }
 
+/**
+ * Authentication defaults, set server-wide with `ServerOptions.authentication`
+ */
+export interface AuthenticationDefaults {
+  /** User verification requirement; "required" is enforced on finish (default: "preferred") */
+  userVerification?: UserVerificationRequirement;
+}
+
 /**
  * Authentication start options
  */
 export interface AuthenticationStartOptions {
-  /** Challenge timeout in milliseconds */
+  /** Challenge timeout in milliseconds (default: 300000 = 5 minutes, at most 600000) */
   timeout?: number;
-  /** User verification requirement */
-  userVerification?: "required" | "preferred" | "discouraged";
+  /** User verification requirement; overrides `ServerOptions.authentication` */
+  userVerification?: UserVerificationRequirement;
+  /** Passkey selection strategy; overrides `ServerOptions.credentialSelection` */
+  credentialSelection?: CredentialSelection;
+  /** Hints sent to the browser as given, instead of any the strategy derives */
+  hints?: PublicKeyCredentialHint[];
+}
+
+/**
+ * Registration finish options
+ */
+export interface RegistrationFinishOptions extends RegistrationStartOptions {
+  /** Challenge ID returned by `startRegistration` */
+  challengeId: string;
+  /** Device information to store with the credential */
+  deviceInfo?: PasskeyDeviceInfo;
+  /** Passkey management options */
+  managementOptions?: PasskeyManagementOptions;
+}
+
+/**
+ * Authentication finish options
+ */
+export interface AuthenticationFinishOptions {
+  /** Device information recorded as the credential's last-used device */
+  deviceInfo?: PasskeyDeviceInfo;
+}
+
+/**
+ * Usernameless (discoverable credential) authentication options
+ */
+export interface DiscoverableAuthenticationOptions
+  extends AuthenticationStartOptions {
+  /**
+   * Credential mediation mode. Use "conditional" to surface passkeys through
+   * browser autofill on an input with `autocomplete="username webauthn"`
+   */
+  mediation?: "optional" | "conditional";
 }
 
 /**
@@ -200,10 +759,36 @@ export const ErrorCodes = {
   VERIFICATION_FAILED: "VERIFICATION_FAILED",
   INVALID_INPUT: "INVALID_INPUT",
   STORAGE_ERROR: "STORAGE_ERROR",
+  UNAUTHORIZED: "UNAUTHORIZED",
+  SUSPECTED_CLONE: "SUSPECTED_CLONE",
+  CREDENTIAL_DISABLED: "CREDENTIAL_DISABLED",
+  CREDENTIAL_REVOKED: "CREDENTIAL_REVOKED",
+  AUTHENTICATOR_NOT_ALLOWED: "AUTHENTICATOR_NOT_ALLOWED",
+  USER_VERIFICATION_REQUIRED: "USER_VERIFICATION_REQUIRED",
+  RATE_LIMITED: "RATE_LIMITED",
 } as const;
 
 export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
 
+/**
+ * HTTP status codes returned by the route handlers for each error code
+ */
+export const ErrorStatusCodes: Record<ErrorCode, number> = {
+  CHALLENGE_NOT_FOUND: 400,
+  CHALLENGE_EXPIRED: 410,
+  CREDENTIAL_NOT_FOUND: 404,
+  VERIFICATION_FAILED: 401,
+  INVALID_INPUT: 400,
+  STORAGE_ERROR: 500,
+  UNAUTHORIZED: 401,
+  SUSPECTED_CLONE: 403,
+  CREDENTIAL_DISABLED: 403,
+  CREDENTIAL_REVOKED: 403,
+  AUTHENTICATOR_NOT_ALLOWED: 403,
+  USER_VERIFICATION_REQUIRED: 401,
+  RATE_LIMITED: 429,
+};
+
 /**
  * Passkey management options
  */
@@ -212,7 +797,7 @@ export interface PasskeyManagementOptions {
   preventDuplicateAuthenticators?: boolean;
   /** Maximum number of passkeys per user */
   maxPasskeysPerUser?: number;
-  /** Require user verification for new registrations */
+  /** Require user verification for new registrations (rejected on finish without it) */
   requireUserVerification?: boolean;
 }
 
@@ -244,9 +829,50 @@ export interface ClientConfig {
     deletePasskey: string;
     /** List passkeys endpoint */
     listPasskeys: string;
+    /** Rename passkey endpoint */
+    renamePasskey?: string;
   };
 }
 
+/**
+ * Next.js App Router route handler
+ */
+export type PasskeyRouteHandler = (request: Request) => Promise<Response>;
+
+/**
+ * Options for the route handler factory
+ */
+export interface PasskeyHandlerOptions {
+  /** Management options enforced on registration; the request body cannot set them */
+  managementOptions?: PasskeyManagementOptions;
+}
+
+/**
+ * Route handlers for every endpoint in `ClientConfig.endpoints`
+ */
+export interface PasskeyHandlers {
+  /** POST handler for the registration start endpoint */
+  registerStart: PasskeyRouteHandler;
+  /** POST handler for the registration finish endpoint */
+  registerFinish: PasskeyRouteHandler;
+  /** POST handler for the authentication start endpoint */
+  authenticateStart: PasskeyRouteHandler;
+  /** POST handler for the authentication finish endpoint */
+  authenticateFinish: PasskeyRouteHandler;
+  /** POST handler for the delete passkey endpoint */
+  deletePasskey: PasskeyRouteHandler;
+  /** POST handler for the list passkeys endpoint */
+  listPasskeys: PasskeyRouteHandler;
+  /** POST handler for the rename passkey endpoint */
+  renamePasskey: PasskeyRouteHandler;
+  /**
+   * Catch-all POST handler for `app/api/passkey/[...passkey]/route.ts`
+   * Dispatches on the trailing path: register/start, register/finish,
+   * authenticate/start, authenticate/finish, delete, list, rename
+   */
+  POST: PasskeyRouteHandler;
+}
+
 /**
  * Hook return types for loading states and errors
  */
@@ -262,10 +888,12 @@ export interface HookState {
  */
 export interface RegisterPasskeyHook extends HookState {
   /** Register a new passkey */
+  /** The user comes from the session on the server (`ServerOptions.getUserId`) */
   register: (
-    userId: string,
     options?: RegistrationStartOptions
   ) => Promise<{ verified: boolean; credential?: StoredCredential }>;
+  /** Seconds to wait after a RATE_LIMITED error, otherwise null */
+  retryAfter: number | null;
 }
 
 /**
@@ -277,14 +905,22 @@ export interface AuthenticatePasskeyHook extends HookState {
     userId: string,
     options?: AuthenticationStartOptions
   ) => Promise<{ verified: boolean; credential?: StoredCredential }>;
+  /** Authenticate without a user ID using a discoverable credential */
+  authenticateDiscoverable: (
+    options?: DiscoverableAuthenticationOptions
+  ) => Promise<{ verified: boolean; credential?: StoredCredential }>;
+  /** Seconds to wait after a RATE_LIMITED error, otherwise null */
+  retryAfter: number | null;
 }
 
 /**
  * Management hook return type
  */
 export interface ManagePasskeysHook extends HookState {
-  /** List user's passkeys */
-  list: (userId: string) => Promise<StoredCredential[]>;
-  /** Delete a passkey */
-  remove: (userId: string, credentialId: string) => Promise<void>;
+  /** List the signed-in user's passkeys */
+  list: () => Promise<StoredCredential[]>;
+  /** Delete a passkey of the signed-in user */
+  remove: (credentialId: string) => Promise<void>;
+  /** Rename a passkey of the signed-in user */
+  rename: (credentialId: string, nickname: string) => Promise<void>;
 }
@@ -0,0 +1,168 @@
+/**
+ * AAGUID-based authenticator identification
+ * Maps the AAGUID reported at registration to a provider name and icon
+ */
+
+/**
+ * Kind of authenticator behind an AAGUID
+ */
+export type AuthenticatorKind =
+  | "platform"
+  | "password-manager"
+  | "security-key";
+
+/**
+ * Provider information for a known authenticator
+ */
+export interface AuthenticatorInfo {
+  /** Provider name (e.g., "iCloud Keychain", "YubiKey 5 Series") */
+  name: string;
+  /** Kind of authenticator */
+  kind: AuthenticatorKind;
+  /** Emoji icon used when no image is available */
+  icon: string;
+  /** Light theme icon (data URI or URL), when loaded from metadata */
+  iconLight?: string;
+  /** Dark theme icon (data URI or URL), when loaded from metadata */
+  iconDark?: string;
+}
+
+/**
+ * Entry format of the community passkey AAGUID list
+ * (github.com/passkeydeveloper/passkey-authenticator-aaguids)
+ */
+export interface AaguidMetadataEntry {
+  name: string;
+  icon_light?: string;
+  icon_dark?: string;
+}
+
+const ZERO_AAGUID = "00000000-0000-0000-0000-000000000000";
+
+const KIND_ICONS: Record<AuthenticatorKind, string> = {
+  platform: "💻",
+  "password-manager": "🔐",
+  "security-key": "🔑",
+};
+
+const platform = (name: string): AuthenticatorInfo => ({
+  name,
+  kind: "platform",
+  icon: KIND_ICONS.platform,
+});
+const passwordManager = (name: string): AuthenticatorInfo => ({
+  name,
+  kind: "password-manager",
+  icon: KIND_ICONS["password-manager"],
+});
+const securityKey = (name: string): AuthenticatorInfo => ({
+  name,
+  kind: "security-key",
+  icon: KIND_ICONS["security-key"],
+});
+
+/**
+ * Bundled table of well-known authenticators, available offline
+ */
+const knownAuthenticators = new Map<string, AuthenticatorInfo>([
+  // Platform passkey providers
+  ["fbfc3007-154e-4ecc-8c0b-6e020557d7bd", platform("iCloud Keychain")],
+  [
+    "dd4ec289-e01d-41c9-bb89-70fa845d4bf2",
+    platform("iCloud Keychain (Managed)"),
+  ],
+  ["ea9b8d66-4d01-1d21-3ce4-b6b48cb575d4", platform("Google Password Manager")],
+  ["adce0002-35bc-c60a-648b-0b25f1f05503", platform("Chrome on Mac")],
+  ["b5397666-4885-aa6b-cebf-e52262a439a2", platform("Chromium Browser")],
+  ["771b48fd-d3d4-4f74-9232-fc157ab0507a", platform("Edge on Mac")],
+  ["08987058-cadc-4b81-b6e1-30de50dcbe96", platform("Windows Hello")],
+  ["9ddd1817-af5a-4672-a2b9-3e3dd95000a9", platform("Windows Hello")],
+  ["6028b017-b1d4-4c02-b4b3-afcdafc96bb2", platform("Windows Hello")],
+  ["53414d53-554e-4700-0000-000000000000", platform("Samsung Pass")],
+  // Third-party password managers
+  ["bada5566-a7aa-401f-bd96-45619a55120d", passwordManager("1Password")],
+  ["d548826e-79b4-db40-a3d8-11116f7e8349", passwordManager("Bitwarden")],
+  ["531126d6-e717-415c-9320-3d9aa6981239", passwordManager("Dashlane")],
+  ["b84e4048-15dc-4dd0-8640-f4f60813c8af", passwordManager("NordPass")],
+  ["0ea242b4-43c4-4a1b-8b17-dd6d0b6baec6", passwordManager("Keeper")],
+  ["f3809540-7f14-49c1-a8b3-8f813b225541", passwordManager("Enpass")],
+  // Hardware security keys
+  ["cb69481e-8ff7-4039-93ec-0a2729a154a8", securityKey("YubiKey 5 Series")],
+  ["ee882879-721c-4913-9775-3dfcce97072a", securityKey("YubiKey 5 Series")],
+  [
+    "fa2b99dc-9e39-4257-8f92-4a30d23c4118",
+    securityKey("YubiKey 5 Series with NFC"),
+  ],
+  [
+    "2fc0579f-8113-47ea-b116-bb5a8db9202a",
+    securityKey("YubiKey 5 Series with NFC"),
+  ],
+  ["c5ef55ff-ad9a-4b9f-b580-adebafe026d0", securityKey("YubiKey 5Ci")],
+  [
+    "73bb0cd4-e502-49b8-9c6f-b59445bf720b",
+    securityKey("YubiKey 5 FIPS Series"),
+  ],
+  [
+    "149a2021-8ef6-4133-96b8-81f8d5b7f1f5",
+    securityKey("Security Key by Yubico with NFC"),
+  ],
+  [
+    "6d44ba9b-f6ec-2e49-b930-0c8fe920cb73",
+    securityKey("Security Key by Yubico with NFC"),
+  ],
+  [
+    "f8a011f3-8c0a-4d15-8006-17111f9edc7d",
+    securityKey("Security Key by Yubico"),
+  ],
+  [
+    "b92c3f9a-c014-4056-887f-140a2501163b",
+    securityKey("Security Key by Yubico"),
+  ],
+  [
+    "42b4fb4a-2866-43b2-9bf7-6c6669c2e5d3",
+    securityKey("Google Titan Security Key v2"),
+  ],
+]);
+
+/**
+ * Look up the provider behind an AAGUID
+ * Returns null for unknown or all-zero AAGUIDs (e.g., "none" attestation on some browsers)
+ */
+export function getAuthenticatorInfo(
+  aaguid?: string | null
+): AuthenticatorInfo | null {
+  if (!aaguid) {
+    return null;
+  }
+
+  const normalized = aaguid.toLowerCase();
+  if (normalized === ZERO_AAGUID) {
+    return null;
+  }
+
+  return knownAuthenticators.get(normalized) ?? null;
+}
+
+/**
+ * Merge AAGUID metadata into the lookup table
+ * Accepts the community AAGUID JSON (e.g., a local copy of combined.json),
+ * so the table can be extended without network access
+ */
+export function loadAaguidMetadata(
+  metadata: Record<string, AaguidMetadataEntry>,
+  kind: AuthenticatorKind = "password-manager"
+): void {
+  for (const [aaguid, entry] of Object.entries(metadata)) {
+    const normalized = aaguid.toLowerCase();
+    const existing = knownAuthenticators.get(normalized);
+    const entryKind = existing?.kind ?? kind;
+
+    knownAuthenticators.set(normalized, {
+      name: entry.name,
+      kind: entryKind,
+      icon: existing?.icon ?? KIND_ICONS[entryKind],
+      iconLight: entry.icon_light,
+      iconDark: entry.icon_dark,
+    });
+  }
+}
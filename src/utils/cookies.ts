@@ -0,0 +1,56 @@
+/**
+ * Cookie helpers shared by sessions and the cookie challenge store
+ */
+
+import type { SessionCookieOptions } from "../types/index";
+
+/**
+ * Read a cookie from a request, or null if it is not set
+ * A value that is not valid percent-encoding is treated as not set
+ */
+export function readCookie(request: Request, name: string): string | null {
+  const cookies = request.headers.get("cookie") ?? "";
+
+  for (const part of cookies.split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name && value.length > 0) {
+      try {
+        return decodeURIComponent(value.join("="));
+      } catch {
+        // Malformed escape sequence
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build an HttpOnly Set-Cookie header value
+ * Cookies are Secure unless `secure` is false, and always when SameSite=None
+ */
+export function serializeCookie(
+  name: string,
+  value: string,
+  maxAge: number,
+  attributes: Omit<SessionCookieOptions, "name"> = {}
+): string {
+  const sameSite = attributes.sameSite ?? "lax";
+  const parts = [
+    `${name}=${encodeURIComponent(value)}`,
+    `Path=${attributes.path ?? "/"}`,
+    `Max-Age=${maxAge}`,
+    "HttpOnly",
+    `SameSite=${sameSite.charAt(0).toUpperCase()}${sameSite.slice(1)}`,
+  ];
+
+  if (attributes.domain) {
+    parts.push(`Domain=${attributes.domain}`);
+  }
+  // SameSite=None is only honored on secure cookies
+  if (attributes.secure !== false || sameSite === "none") {
+    parts.push("Secure");
+  }
+
+  return parts.join("; ");
+}
@@ -2,6 +2,7 @@ import type {
   PasskeyDeviceInfo,
   AuthenticatorAttachment,
 } from "../types/index";
+import { getAuthenticatorInfo } from "./aaguid";
 
 /**
  * Detect device information from user agent and other browser APIs
@@ -49,12 +50,19 @@ export function detectDeviceInfo(userAgent?: string): PasskeyDeviceInfo {
 }
 
 /**
- * Generate a user-friendly name for a passkey based on device info
+ * Generate a user-friendly name for a passkey
+ * Uses the AAGUID provider name when known, falling back to device info
  */
 export function generatePasskeyNickname(
   deviceInfo: PasskeyDeviceInfo,
-  authenticatorAttachment?: AuthenticatorAttachment
+  authenticatorAttachment?: AuthenticatorAttachment,
+  aaguid?: string
 ): string {
+  const authenticator = getAuthenticatorInfo(aaguid);
+  if (authenticator) {
+    return authenticator.name;
+  }
+
   const { deviceType, os, browser } = deviceInfo;
 
   if (authenticatorAttachment === "platform") {
@@ -91,13 +99,21 @@ export function generatePasskeyNickname(
 
 /**
  * Get a user-friendly icon/emoji for a passkey type
+ * Uses the AAGUID provider icon when known, falling back to device info
  */
 export function getPasskeyIcon(credential: {
   authenticatorAttachment?: AuthenticatorAttachment;
   deviceInfo?: PasskeyDeviceInfo;
   transports?: string[];
+  aaguid?: string;
 }): string {
-  const { authenticatorAttachment, deviceInfo, transports } = credential;
+  const { authenticatorAttachment, deviceInfo, transports, aaguid } =
+    credential;
+
+  const authenticator = getAuthenticatorInfo(aaguid);
+  if (authenticator) {
+    return authenticator.icon;
+  }
 
   // Platform authenticators
   if (authenticatorAttachment === "platform") {
@@ -137,13 +153,24 @@ export function isSameAuthenticator(
     authenticatorAttachment?: AuthenticatorAttachment;
     deviceInfo?: PasskeyDeviceInfo;
     transports?: string[];
+    aaguid?: string;
   },
   credential2: {
     authenticatorAttachment?: AuthenticatorAttachment;
     deviceInfo?: PasskeyDeviceInfo;
     transports?: string[];
+    aaguid?: string;
   }
 ): boolean {
+  // Different known AAGUIDs are definitely different authenticators
+  if (
+    getAuthenticatorInfo(credential1.aaguid) &&
+    getAuthenticatorInfo(credential2.aaguid) &&
+    credential1.aaguid !== credential2.aaguid
+  ) {
+    return false;
+  }
+
   // Different attachment types are definitely different authenticators
   if (
     credential1.authenticatorAttachment !== credential2.authenticatorAttachment
@@ -0,0 +1,34 @@
+/**
+ * JSON file persistence for the in-memory store and adapter
+ * `node:fs` is imported lazily so the memory backends stay usable without a filesystem
+ */
+
+/**
+ * Read a JSON file, returning null when it does not exist yet
+ */
+export async function readJsonFile<T>(path: string): Promise<T | null> {
+  const { readFile } = await import("node:fs/promises");
+
+  try {
+    return JSON.parse(await readFile(path, "utf-8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a value as JSON, replacing the file atomically via a temporary file
+ */
+export async function writeJsonFile(
+  path: string,
+  value: unknown
+): Promise<void> {
+  const { rename, writeFile } = await import("node:fs/promises");
+
+  const tempPath = `${path}.tmp`;
+  await writeFile(tempPath, JSON.stringify(value, null, 2), "utf-8");
+  await rename(tempPath, path);
+}
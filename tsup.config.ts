@@ -7,6 +7,7 @@ export default defineConfig({
     "client/index": "src/client/index.ts",
     "adapters/index": "src/adapters/index.ts",
     "store/index": "src/store/index.ts",
+    "drizzle/index": "src/drizzle/index.ts",
     "types/index": "src/types/index.ts",
   },
   format: ["esm", "cjs"],